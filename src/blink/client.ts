@@ -2,5 +2,6 @@ import { createClient } from '@blinkdotnew/sdk'
 
 export const blink = createClient({
   projectId: 'quiz-generator-dashboard-0c2ifh26',
-  authRequired: true
+  // The local and in-memory data backends sign in a local user instead
+  authRequired: (import.meta.env.VITE_DATA_BACKEND ?? 'blink') === 'blink'
 })
\ No newline at end of file
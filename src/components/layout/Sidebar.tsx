@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { Link, useLocation } from 'react-router-dom'
 import { 
   LayoutDashboard, 
@@ -9,16 +9,20 @@ import {
   Menu,
   X,
   BookOpen,
+  Brain,
+  Library,
   LogOut
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet'
-import { blink } from '@/blink/client'
+import { auth, reviewCardRepository } from '@/lib/data'
 
 const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
   { name: 'Generate Quiz', href: '/generate', icon: Plus },
   { name: 'Take Quiz', href: '/quiz', icon: BookOpen },
+  { name: 'Review', href: '/review', icon: Brain },
+  { name: 'Library', href: '/library', icon: Library },
   { name: 'History', href: '/history', icon: History },
   { name: 'Analytics', href: '/analytics', icon: BarChart3 },
   { name: 'Profile', href: '/profile', icon: User },
@@ -27,9 +31,23 @@ const navigation = [
 export function Sidebar() {
   const location = useLocation()
   const [isMobileOpen, setIsMobileOpen] = useState(false)
+  const [dueCount, setDueCount] = useState(0)
+
+  // Refresh on navigation so finishing a quiz or a review updates the badge
+  useEffect(() => {
+    const loadDueCount = async () => {
+      try {
+        const user = await auth.me()
+        setDueCount(await reviewCardRepository.countDue(user.id))
+      } catch (error) {
+        console.warn('Could not load due review count:', error)
+      }
+    }
+    loadDueCount()
+  }, [location.pathname])
 
   const handleLogout = () => {
-    blink.auth.logout()
+    auth.logout()
   }
 
   const SidebarContent = () => (
@@ -63,6 +81,11 @@ export function Sidebar() {
                 }`}
               />
               {item.name}
+              {item.href === '/review' && dueCount > 0 && (
+                <span className="ml-auto rounded-full bg-indigo-600 px-2 py-0.5 text-xs font-semibold text-white">
+                  {dueCount}
+                </span>
+              )}
             </Link>
           )
         })}
@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react'
+import { FileText, Loader2, Pencil, SlidersHorizontal, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Separator } from '@/components/ui/separator'
+import { generationPresetRepository, promptTemplateRepository } from '@/lib/data'
+import { AUDIENCE_LABELS, TEMPLATE_PLACEHOLDERS, TONE_LABELS, languageName } from '@/lib/presets'
+import type { GenerationPreset, PromptTemplate } from '@/types'
+
+interface GenerationPreferencesProps {
+  userId: string
+}
+
+const describePreset = (preset: GenerationPreset) =>
+  [
+    `${preset.difficulty[0].toUpperCase()}${preset.difficulty.slice(1)}`,
+    `${preset.questionCount} questions`,
+    preset.isTimed ? `${preset.timeLimit} min` : 'untimed',
+    languageName(preset.language),
+    AUDIENCE_LABELS[preset.audience],
+    TONE_LABELS[preset.tone]
+  ].join(' · ')
+
+/**
+ * Profile section for the generator's saved presets and prompt templates.
+ * Presets are created from the generator; templates are written here.
+ */
+export function GenerationPreferences({ userId }: GenerationPreferencesProps) {
+  const [presets, setPresets] = useState<GenerationPreset[]>([])
+  const [templates, setTemplates] = useState<PromptTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Template being written; `editingId` is null for a new one
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [templateName, setTemplateName] = useState('')
+  const [templateBody, setTemplateBody] = useState('')
+  const [savingTemplate, setSavingTemplate] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [userPresets, userTemplates] = await Promise.all([
+          generationPresetRepository.listByUser(userId),
+          promptTemplateRepository.listByUser(userId)
+        ])
+        setPresets(userPresets)
+        setTemplates(userTemplates)
+      } catch (error) {
+        console.error('Error loading generation preferences:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [userId])
+
+  const handleDefaultChange = async (value: string) => {
+    const id = value === 'none' ? null : value
+    try {
+      await generationPresetRepository.setDefault(userId, id)
+      setPresets(prev => prev.map(preset => ({ ...preset, isDefault: preset.id === id })))
+    } catch (error) {
+      console.error('Error setting default preset:', error)
+      alert('Failed to set the default preset. Please try again.')
+    }
+  }
+
+  const handleDeletePreset = async (preset: GenerationPreset) => {
+    if (!confirm(`Delete the preset "${preset.name}"?`)) return
+
+    try {
+      await generationPresetRepository.delete(preset.id)
+      setPresets(prev => prev.filter(item => item.id !== preset.id))
+    } catch (error) {
+      console.error('Error deleting preset:', error)
+      alert('Failed to delete the preset. Please try again.')
+    }
+  }
+
+  const resetTemplateForm = () => {
+    setEditingId(null)
+    setTemplateName('')
+    setTemplateBody('')
+  }
+
+  const editTemplate = (template: PromptTemplate) => {
+    setEditingId(template.id)
+    setTemplateName(template.name)
+    setTemplateBody(template.body)
+  }
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim() || !templateBody.trim()) {
+      alert('A template needs a name and some text.')
+      return
+    }
+
+    setSavingTemplate(true)
+    try {
+      const changes = { name: templateName.trim(), body: templateBody.trim() }
+      const saved = editingId
+        ? await promptTemplateRepository.update(editingId, changes)
+        : await promptTemplateRepository.create({ ...changes, userId })
+      setTemplates(prev => [...prev.filter(item => item.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+      resetTemplateForm()
+    } catch (error) {
+      console.error('Error saving prompt template:', error)
+      alert(`Failed to save the template: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    } finally {
+      setSavingTemplate(false)
+    }
+  }
+
+  const handleDeleteTemplate = async (template: PromptTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return
+
+    try {
+      await promptTemplateRepository.delete(template.id)
+      setTemplates(prev => prev.filter(item => item.id !== template.id))
+      if (editingId === template.id) resetTemplateForm()
+    } catch (error) {
+      console.error('Error deleting prompt template:', error)
+      alert('Failed to delete the template. Please try again.')
+    }
+  }
+
+  const defaultPreset = presets.find(preset => preset.isDefault)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Quiz Generation
+        </CardTitle>
+        <CardDescription>Saved presets, your default preset and prompt templates</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="space-y-3">
+            {[...Array(2)].map((_, i) => (
+              <div key={i} className="h-12 bg-gray-200 rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="default-preset">Default Preset</Label>
+              <Select value={defaultPreset?.id ?? 'none'} onValueChange={handleDefaultChange} disabled={presets.length === 0}>
+                <SelectTrigger id="default-preset">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No default</SelectItem>
+                  {presets.map(preset => (
+                    <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-600">
+                {presets.length === 0
+                  ? 'Save a preset from the Generate Quiz page to use it here.'
+                  : 'The generator starts with these settings.'}
+              </p>
+            </div>
+
+            {presets.length > 0 && (
+              <div className="space-y-2">
+                {presets.map(preset => (
+                  <div key={preset.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{preset.name}</p>
+                      <p className="text-sm text-gray-600">{describePreset(preset)}</p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => handleDeletePreset(preset)} aria-label={`Delete ${preset.name}`}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-4">
+              <div>
+                <h4 className="font-medium text-gray-900">Prompt Templates</h4>
+                <p className="text-sm text-gray-600">
+                  Replace the standard request with your own wording. Use {TEMPLATE_PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}.
+                </p>
+              </div>
+
+              {templates.map(template => (
+                <div key={template.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <FileText className="h-4 w-4 text-indigo-600 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{template.name}</p>
+                      <p className="text-sm text-gray-600 truncate">{template.body}</p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => editTemplate(template)} aria-label={`Edit ${template.name}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDeleteTemplate(template)} aria-label={`Delete ${template.name}`}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">{editingId ? 'Edit Template' : 'New Template'}</Label>
+                  <Input
+                    id="template-name"
+                    placeholder="e.g., Exam revision"
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                  />
+                </div>
+                <Textarea
+                  placeholder="e.g., Write {{count}} exam-style questions on {{topic}} for {{audience}} students, focusing on common mistakes."
+                  value={templateBody}
+                  onChange={(e) => setTemplateBody(e.target.value)}
+                  rows={3}
+                />
+                <div className="flex gap-2 justify-end">
+                  {editingId && (
+                    <Button variant="outline" onClick={resetTemplateForm}>
+                      Cancel
+                    </Button>
+                  )}
+                  <Button onClick={handleSaveTemplate} disabled={savingTemplate || !templateName.trim() || !templateBody.trim()}>
+                    {savingTemplate && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {editingId ? 'Save Template' : 'Add Template'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,34 @@
+import { CheckCircle, XCircle } from 'lucide-react'
+import { SourceCitation } from '@/components/quiz/SourceCitation'
+import { formatCorrectAnswer, isAnswerCorrect } from '@/lib/questions'
+import type { Question, QuestionAnswer, Quiz } from '@/types'
+
+interface AnswerFeedbackProps {
+  question: Question
+  answer: QuestionAnswer | undefined
+  // Lets the source citation open the passage it quotes
+  quiz?: Quiz
+}
+
+export function AnswerFeedback({ question, answer, quiz }: AnswerFeedbackProps) {
+  const isCorrect = isAnswerCorrect(question, answer)
+
+  return (
+    <div className={`rounded-lg border p-4 space-y-2 ${
+      isCorrect ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+    }`}>
+      <div className={`flex items-center font-medium ${isCorrect ? 'text-green-800' : 'text-red-800'}`}>
+        {isCorrect ? (
+          <CheckCircle className="h-5 w-5 mr-2 text-green-500" />
+        ) : (
+          <XCircle className="h-5 w-5 mr-2 text-red-500" />
+        )}
+        {isCorrect ? 'Correct!' : `Not quite. The answer is: ${formatCorrectAnswer(question)}`}
+      </div>
+      {question.explanation && (
+        <p className="text-sm text-gray-700">{question.explanation}</p>
+      )}
+      {question.source && <SourceCitation source={question.source} quiz={quiz} />}
+    </div>
+  )
+}
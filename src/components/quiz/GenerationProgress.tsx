@@ -0,0 +1,54 @@
+import { Loader2, Square } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Badge } from '@/components/ui/badge'
+import { QUESTION_TYPE_LABELS } from '@/lib/questions'
+import type { Question } from '@/types'
+
+interface GenerationProgressProps {
+  questions: Question[]
+  total: number
+  cancelling: boolean
+  onCancel: () => void
+}
+
+export function GenerationProgress({ questions, total, cancelling, onCancel }: GenerationProgressProps) {
+  const count = Math.min(questions.length, total)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Loader2 className="h-5 w-5 text-indigo-600 animate-spin" />
+              {cancelling ? 'Stopping...' : 'Generating Questions'}
+            </CardTitle>
+            <CardDescription>
+              {count} of {total} questions ready. Cancelling keeps the questions generated so far.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={onCancel} disabled={cancelling}>
+            <Square className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Progress value={(count / total) * 100} className="h-2" />
+        {questions.length > 0 && (
+          <ol className="space-y-2 max-h-80 overflow-y-auto">
+            {questions.slice(0, total).map((question, index) => (
+              <li key={question.id} className="flex items-start gap-3 p-3 border rounded-lg text-sm">
+                <span className="font-medium text-gray-500">{index + 1}.</span>
+                <span className="flex-1 text-gray-900">{question.question}</span>
+                <Badge variant="outline" className="shrink-0">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,219 @@
+import { Clock, GraduationCap, MessageSquare } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { QuestionTypePicker } from '@/components/quiz/QuestionTypePicker'
+import { AUDIENCE_LABELS, LANGUAGE_LABELS, TONE_LABELS } from '@/lib/presets'
+import { COGNITIVE_LEVEL_LABELS, COGNITIVE_LEVELS } from '@/lib/questions'
+import type { AudienceLevel, GenerationSettings, QuizMode, QuizTone } from '@/types'
+
+interface GenerationSettingsFormProps {
+  // Prefix for element ids, so the form can appear more than once on a page
+  id: string
+  value: GenerationSettings
+  onChange: (settings: GenerationSettings) => void
+}
+
+export function GenerationSettingsForm({ id, value, onChange }: GenerationSettingsFormProps) {
+  const update = (changes: Partial<GenerationSettings>) => onChange({ ...value, ...changes })
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-difficulty`}>Difficulty Level</Label>
+          <Select value={value.difficulty} onValueChange={(difficulty: 'easy' | 'medium' | 'hard') => update({ difficulty })}>
+            <SelectTrigger id={`${id}-difficulty`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="easy">Easy</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="hard">Hard</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-questionCount`}>Number of Questions</Label>
+          <Select value={value.questionCount.toString()} onValueChange={(count) => update({ questionCount: parseInt(count) })}>
+            <SelectTrigger id={`${id}-questionCount`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="5">5 Questions</SelectItem>
+              <SelectItem value="10">10 Questions</SelectItem>
+              <SelectItem value="15">15 Questions</SelectItem>
+              <SelectItem value="20">20 Questions</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-defaultMode`}>Default Mode</Label>
+          <Select value={value.defaultMode} onValueChange={(defaultMode: QuizMode) => update({ defaultMode })}>
+            <SelectTrigger id={`${id}-defaultMode`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="exam">Exam (scored at the end)</SelectItem>
+              <SelectItem value="practice">Practice (instant feedback)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <QuestionTypePicker id={`${id}-types`} value={value.questionTypes} onChange={(questionTypes) => update({ questionTypes })} />
+
+      {/* Style */}
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="h-4 w-4 text-indigo-600" />
+          <Label className="text-sm font-medium">Style</Label>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-language`}>Language</Label>
+            <Select value={value.language} onValueChange={(language) => update({ language })}>
+              <SelectTrigger id={`${id}-language`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(LANGUAGE_LABELS).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-audience`}>Audience Level</Label>
+            <Select value={value.audience} onValueChange={(audience: AudienceLevel) => update({ audience })}>
+              <SelectTrigger id={`${id}-audience`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(AUDIENCE_LABELS).map(([level, label]) => (
+                  <SelectItem key={level} value={level}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-tone`}>Tone</Label>
+            <Select value={value.tone} onValueChange={(tone: QuizTone) => update({ tone })}>
+              <SelectTrigger id={`${id}-tone`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(TONE_LABELS).map(([tone, label]) => (
+                  <SelectItem key={tone} value={tone}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-instructions`}>Custom Instructions (Optional)</Label>
+          <Textarea
+            id={`${id}-instructions`}
+            placeholder="e.g., Use British spelling. Avoid questions about dates."
+            value={value.instructions}
+            onChange={(e) => update({ instructions: e.target.value })}
+            rows={2}
+          />
+        </div>
+      </div>
+
+      {/* Learning Targets */}
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <div className="flex items-center gap-2">
+          <GraduationCap className="h-4 w-4 text-indigo-600" />
+          <Label className="text-sm font-medium">Learning Targets</Label>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${id}-objectives`}>Learning Objectives (Optional, one per line)</Label>
+          <Textarea
+            id={`${id}-objectives`}
+            placeholder={'e.g., Explain the causes of the French Revolution\nCompare absolute and constitutional monarchy'}
+            value={value.objectives.join('\n')}
+            onChange={(e) => update({ objectives: e.target.value.split('\n') })}
+            rows={3}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Cognitive Level Mix (relative weights)</Label>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {COGNITIVE_LEVELS.map(level => (
+              <div key={level} className="space-y-1">
+                <Label htmlFor={`${id}-level-${level}`} className="text-xs text-gray-600">
+                  {COGNITIVE_LEVEL_LABELS[level]}
+                </Label>
+                <Input
+                  id={`${id}-level-${level}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={value.levelMix[level]}
+                  onChange={(e) => update({ levelMix: { ...value.levelMix, [level]: Math.max(0, Number(e.target.value) || 0) } })}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-600">
+            Leave every level at 0 to let the AI choose. Each question is tagged with its level either way.
+          </p>
+        </div>
+      </div>
+
+      {/* Timer Settings */}
+      <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4 text-indigo-600" />
+            <Label htmlFor={`${id}-timed-quiz`} className="text-sm font-medium">
+              Timed Quiz
+            </Label>
+          </div>
+          <Switch
+            id={`${id}-timed-quiz`}
+            checked={value.isTimed}
+            onCheckedChange={(isTimed) => update({ isTimed })}
+          />
+        </div>
+
+        {value.isTimed && (
+          <div className="space-y-2">
+            <Label htmlFor={`${id}-time-limit`}>Time Limit (minutes)</Label>
+            <Select value={value.timeLimit.toString()} onValueChange={(minutes) => update({ timeLimit: parseInt(minutes) })}>
+              <SelectTrigger id={`${id}-time-limit`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="10">10 minutes</SelectItem>
+                <SelectItem value="15">15 minutes</SelectItem>
+                <SelectItem value="20">20 minutes</SelectItem>
+                <SelectItem value="30">30 minutes</SelectItem>
+                <SelectItem value="45">45 minutes</SelectItem>
+                <SelectItem value="60">60 minutes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-600">
+          {value.isTimed
+            ? `Quiz will have a ${value.timeLimit}-minute time limit. Students can submit early.`
+            : 'Quiz will have no time limit. Students can take as long as needed.'
+          }
+        </p>
+      </div>
+    </div>
+  )
+}
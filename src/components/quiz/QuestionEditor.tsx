@@ -0,0 +1,325 @@
+import type { ReactNode } from 'react'
+import { AlertTriangle, Loader2, Plus, RefreshCw, Trash2, X } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { SortableItem, SortableList } from '@/components/quiz/SortableList'
+import { QUALITY_FLAG_LABELS, type QualityFlag } from '@/lib/quality'
+import { COGNITIVE_LEVEL_LABELS, COGNITIVE_LEVELS, MAX_OPTIONS, QUESTION_TYPES, QUESTION_TYPE_LABELS } from '@/lib/questions'
+import {
+  optionKeysOf,
+  withMovedOption,
+  withNewOption,
+  withoutOption,
+  withType,
+  type DraftQuestion
+} from '@/lib/questionDrafts'
+import type { CognitiveLevel, QuestionType } from '@/types'
+
+interface QuestionEditorProps {
+  question: DraftQuestion
+  index: number
+  errors: string[]
+  // Answer-key and item-writing problems found by the quality check
+  warnings?: QualityFlag[]
+  dragHandle?: ReactNode
+  regenerating?: boolean
+  onChange: (question: DraftQuestion) => void
+  onDelete: () => void
+  onRegenerate?: () => void
+}
+
+function OptionsEditor({ question, onChange }: {
+  question: Extract<DraftQuestion, { options: string[] }>
+  onChange: (question: DraftQuestion) => void
+}) {
+  const optionKeys = optionKeysOf(question)
+
+  const isCorrect = (index: number) =>
+    question.type === 'multi_select'
+      ? question.correctAnswers.includes(index)
+      : question.correctAnswer === index
+
+  const toggleCorrect = (index: number) => {
+    if (question.type === 'multi_select') {
+      const correctAnswers = isCorrect(index)
+        ? question.correctAnswers.filter(value => value !== index)
+        : [...question.correctAnswers, index].sort((a, b) => a - b)
+      onChange({ ...question, correctAnswers })
+    } else {
+      onChange({ ...question, correctAnswer: index })
+    }
+  }
+
+  const updateOption = (index: number, value: string) => {
+    onChange({
+      ...question,
+      options: question.options.map((option, i) => (i === index ? value : option)),
+      optionKeys
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>
+        Options <span className="text-gray-500 font-normal">
+          ({question.type === 'multi_select' ? 'tick every correct option' : 'tick the correct option'})
+        </span>
+      </Label>
+      <SortableList
+        ids={optionKeys}
+        onReorder={(fromIndex, toIndex) => onChange(withMovedOption(question, fromIndex, toIndex))}
+      >
+        <div className="space-y-2">
+          {question.options.map((option, index) => (
+            <SortableItem key={optionKeys[index]} id={optionKeys[index]} label={`Reorder option ${String.fromCharCode(65 + index)}`}>
+              {(handle) => (
+                <div className="flex items-center gap-2 bg-white">
+                  {handle}
+                  <Checkbox
+                    checked={isCorrect(index)}
+                    onCheckedChange={() => toggleCorrect(index)}
+                    aria-label={`Mark option ${String.fromCharCode(65 + index)} correct`}
+                  />
+                  <span className="w-5 text-sm font-medium text-gray-500">{String.fromCharCode(65 + index)}.</span>
+                  <Input value={option} onChange={(e) => updateOption(index, e.target.value)} />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onChange(withoutOption(question, index))}
+                    disabled={question.options.length <= 2}
+                    aria-label="Remove option"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </SortableItem>
+          ))}
+        </div>
+      </SortableList>
+      {question.options.length < MAX_OPTIONS && (
+        <Button variant="outline" size="sm" onClick={() => onChange(withNewOption(question))}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Option
+        </Button>
+      )}
+    </div>
+  )
+}
+
+function AcceptedAnswersEditor({ question, onChange }: {
+  question: Extract<DraftQuestion, { acceptedAnswers: string[] }>
+  onChange: (question: DraftQuestion) => void
+}) {
+  const update = (acceptedAnswers: string[]) => onChange({ ...question, acceptedAnswers })
+
+  return (
+    <div className="space-y-2">
+      <Label>
+        {question.type === 'short_answer' ? 'Key Phrases' : 'Accepted Answers'}
+      </Label>
+      {question.acceptedAnswers.map((answer, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={answer}
+            onChange={(e) => update(question.acceptedAnswers.map((value, i) => (i === index ? e.target.value : value)))}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => update(question.acceptedAnswers.filter((_, i) => i !== index))}
+            disabled={question.acceptedAnswers.length <= 1}
+            aria-label="Remove answer"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => update([...question.acceptedAnswers, ''])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add Answer
+      </Button>
+    </div>
+  )
+}
+
+export function QuestionEditor({ question, index, errors, warnings = [], dragHandle, regenerating, onChange, onDelete, onRegenerate }: QuestionEditorProps) {
+  const renderAnswerFields = () => {
+    switch (question.type) {
+      case 'multiple_choice':
+      case 'multi_select':
+        return <OptionsEditor question={question} onChange={onChange} />
+
+      case 'true_false':
+        return (
+          <div className="space-y-2">
+            <Label>Correct Answer</Label>
+            <Select
+              value={String(question.correctAnswer)}
+              onValueChange={(value) => onChange({ ...question, correctAnswer: value === 'true' })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="true">True</SelectItem>
+                <SelectItem value="false">False</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )
+
+      case 'fill_blank':
+      case 'short_answer':
+        return <AcceptedAnswersEditor question={question} onChange={onChange} />
+
+      case 'numeric':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Correct Answer</Label>
+              <Input
+                type="number"
+                step="any"
+                value={Number.isFinite(question.correctAnswer) ? question.correctAnswer : ''}
+                onChange={(e) => onChange({ ...question, correctAnswer: parseFloat(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tolerance (±)</Label>
+              <Input
+                type="number"
+                step="any"
+                min={0}
+                value={Number.isFinite(question.tolerance) ? question.tolerance : ''}
+                onChange={(e) => onChange({ ...question, tolerance: parseFloat(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Unit (Optional)</Label>
+              <Input
+                value={question.unit ?? ''}
+                onChange={(e) => onChange({ ...question, unit: e.target.value || undefined })}
+              />
+            </div>
+          </div>
+        )
+    }
+  }
+
+  return (
+    <Card className={errors.length > 0 ? 'border-red-300' : warnings.length > 0 ? 'border-amber-300' : undefined}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="flex items-center gap-2">
+          {dragHandle}
+          <CardTitle className="text-lg">Question {index + 1}</CardTitle>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={question.type}
+            onValueChange={(value: QuestionType) => onChange(withType(question, value))}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUESTION_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {onRegenerate && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onRegenerate}
+              disabled={regenerating}
+              aria-label="Regenerate question"
+              title="Regenerate question"
+            >
+              {regenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={onDelete} aria-label="Delete question">
+            <Trash2 className="h-4 w-4 text-red-500" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${question.id}-text`}>Question</Label>
+          <Textarea
+            id={`${question.id}-text`}
+            value={question.question}
+            onChange={(e) => onChange({ ...question, question: e.target.value })}
+            rows={2}
+          />
+        </div>
+
+        {renderAnswerFields()}
+
+        <div className="space-y-2">
+          <Label htmlFor={`${question.id}-explanation`}>Explanation</Label>
+          <Textarea
+            id={`${question.id}-explanation`}
+            value={question.explanation ?? ''}
+            onChange={(e) => onChange({ ...question, explanation: e.target.value })}
+            rows={2}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`${question.id}-level`}>Cognitive Level</Label>
+            <Select
+              value={question.level ?? 'none'}
+              onValueChange={(value) => onChange({ ...question, level: value === 'none' ? undefined : value as CognitiveLevel })}
+            >
+              <SelectTrigger id={`${question.id}-level`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Not set</SelectItem>
+                {COGNITIVE_LEVELS.map(level => (
+                  <SelectItem key={level} value={level}>{COGNITIVE_LEVEL_LABELS[level]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${question.id}-objective`}>Learning Objective (Optional)</Label>
+            <Input
+              id={`${question.id}-objective`}
+              value={question.objective ?? ''}
+              onChange={(e) => onChange({ ...question, objective: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-600 list-disc pl-5">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+            {warnings.map((warning, warningIndex) => (
+              <p key={warningIndex} className="text-sm text-amber-800 flex items-start gap-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>
+                  <span className="font-medium">{QUALITY_FLAG_LABELS[warning.kind]}:</span> {warning.message}
+                </span>
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
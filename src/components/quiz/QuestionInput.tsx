@@ -0,0 +1,148 @@
+import { Check } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import type { Question, QuestionAnswer } from '@/types'
+
+interface QuestionInputProps {
+  question: Question
+  answer: QuestionAnswer | undefined
+  onChange: (answer: QuestionAnswer) => void
+  disabled?: boolean
+}
+
+interface OptionButtonProps {
+  label: string
+  text: string
+  selected: boolean
+  multiple?: boolean
+  disabled?: boolean
+  onClick: () => void
+}
+
+function OptionButton({ label, text, selected, multiple, disabled, onClick }: OptionButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className={`p-4 text-left rounded-lg border-2 transition-all disabled:cursor-not-allowed ${
+        selected
+          ? 'border-indigo-500 bg-indigo-50 text-indigo-900'
+          : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+      }`}
+    >
+      <div className="flex items-center">
+        {multiple ? (
+          <span className={`mr-3 flex h-5 w-5 items-center justify-center rounded border ${
+            selected ? 'border-indigo-500 bg-indigo-500 text-white' : 'border-gray-300'
+          }`}>
+            {selected && <Check className="h-3 w-3" />}
+          </span>
+        ) : (
+          <span className="font-medium mr-3 text-gray-500">{label}.</span>
+        )}
+        <span>{text}</span>
+      </div>
+    </button>
+  )
+}
+
+export function QuestionInput({ question, answer, onChange, disabled }: QuestionInputProps) {
+  switch (question.type) {
+    case 'multiple_choice':
+      return (
+        <div className="grid gap-3">
+          {question.options.map((option, index) => (
+            <OptionButton
+              key={index}
+              label={String.fromCharCode(65 + index)}
+              text={option}
+              selected={answer === index}
+              disabled={disabled}
+              onClick={() => onChange(index)}
+            />
+          ))}
+        </div>
+      )
+
+    case 'true_false':
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {[true, false].map((value, index) => (
+            <OptionButton
+              key={String(value)}
+              label={String.fromCharCode(65 + index)}
+              text={value ? 'True' : 'False'}
+              selected={answer === value}
+              disabled={disabled}
+              onClick={() => onChange(value)}
+            />
+          ))}
+        </div>
+      )
+
+    case 'multi_select': {
+      const selected = Array.isArray(answer) ? answer : []
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">Select all that apply.</p>
+          <div className="grid gap-3">
+            {question.options.map((option, index) => (
+              <OptionButton
+                key={index}
+                label={String.fromCharCode(65 + index)}
+                text={option}
+                multiple
+                selected={selected.includes(index)}
+                disabled={disabled}
+                onClick={() => onChange(
+                  selected.includes(index)
+                    ? selected.filter(value => value !== index)
+                    : [...selected, index].sort((a, b) => a - b)
+                )}
+              />
+            ))}
+          </div>
+        </div>
+      )
+    }
+
+    case 'fill_blank':
+      return (
+        <Input
+          placeholder="Type the missing word or phrase..."
+          value={typeof answer === 'string' ? answer : ''}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+        />
+      )
+
+    case 'numeric':
+      return (
+        <div className="flex items-center gap-3">
+          <Input
+            type="number"
+            inputMode="decimal"
+            step="any"
+            placeholder="Enter a number"
+            value={typeof answer === 'string' ? answer : ''}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            className="max-w-xs"
+          />
+          {question.unit && <span className="text-gray-600">{question.unit}</span>}
+        </div>
+      )
+
+    case 'short_answer':
+      return (
+        <Textarea
+          placeholder="Write your answer..."
+          value={typeof answer === 'string' ? answer : ''}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          rows={3}
+        />
+      )
+  }
+}
@@ -0,0 +1,135 @@
+import { CheckCircle, XCircle } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { SourceCitation } from '@/components/quiz/SourceCitation'
+import { formatCorrectAnswer, hasAnswer, isAnswerCorrect, QUESTION_TYPE_LABELS } from '@/lib/questions'
+import type { Question, QuestionAnswer, Quiz } from '@/types'
+
+interface QuestionReviewProps {
+  question: Question
+  index: number
+  answer: QuestionAnswer | undefined
+  // Lets the source citation open the passage it quotes
+  quiz?: Quiz
+}
+
+function ReviewOption({ label, text, isCorrectOption, isWrongPick }: {
+  label: string
+  text: string
+  isCorrectOption: boolean
+  isWrongPick: boolean
+}) {
+  return (
+    <div
+      className={`p-3 rounded-lg border ${
+        isCorrectOption
+          ? 'bg-green-50 border-green-200 text-green-800'
+          : isWrongPick
+          ? 'bg-red-50 border-red-200 text-red-800'
+          : 'bg-gray-50 border-gray-200'
+      }`}
+    >
+      <div className="flex items-center">
+        <span className="font-medium mr-2">{label}.</span>
+        {text}
+        {isCorrectOption && <CheckCircle className="h-4 w-4 text-green-500 ml-auto" />}
+        {isWrongPick && <XCircle className="h-4 w-4 text-red-500 ml-auto" />}
+      </div>
+    </div>
+  )
+}
+
+export function QuestionReview({ question, index, answer, quiz }: QuestionReviewProps) {
+  const isCorrect = isAnswerCorrect(question, answer)
+
+  const renderAnswer = () => {
+    switch (question.type) {
+      case 'multiple_choice':
+        return question.options.map((option, optionIndex) => (
+          <ReviewOption
+            key={optionIndex}
+            label={String.fromCharCode(65 + optionIndex)}
+            text={option}
+            isCorrectOption={optionIndex === question.correctAnswer}
+            isWrongPick={optionIndex === answer && !isCorrect}
+          />
+        ))
+
+      case 'true_false':
+        return [true, false].map((value, optionIndex) => (
+          <ReviewOption
+            key={String(value)}
+            label={String.fromCharCode(65 + optionIndex)}
+            text={value ? 'True' : 'False'}
+            isCorrectOption={value === question.correctAnswer}
+            isWrongPick={value === answer && !isCorrect}
+          />
+        ))
+
+      case 'multi_select': {
+        const selected = Array.isArray(answer) ? answer : []
+        return question.options.map((option, optionIndex) => {
+          const isCorrectOption = question.correctAnswers.includes(optionIndex)
+          return (
+            <ReviewOption
+              key={optionIndex}
+              label={String.fromCharCode(65 + optionIndex)}
+              text={option}
+              isCorrectOption={isCorrectOption}
+              isWrongPick={selected.includes(optionIndex) && !isCorrectOption}
+            />
+          )
+        })
+      }
+
+      default:
+        return (
+          <div className="space-y-2 text-sm">
+            <div className={`p-3 rounded-lg border ${
+              isCorrect ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'
+            }`}>
+              <span className="font-medium mr-2">Your answer:</span>
+              {hasAnswer(answer) ? String(answer) : 'No answer'}
+            </div>
+            {!isCorrect && (
+              <div className="p-3 rounded-lg border bg-green-50 border-green-200 text-green-800">
+                <span className="font-medium mr-2">Correct answer:</span>
+                {formatCorrectAnswer(question)}
+              </div>
+            )}
+          </div>
+        )
+    }
+  }
+
+  return (
+    <Card className={`border-l-4 ${isCorrect ? 'border-l-green-500' : 'border-l-red-500'}`}>
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            Question {index + 1}
+            <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+          </CardTitle>
+          {isCorrect ? (
+            <CheckCircle className="h-5 w-5 text-green-500" />
+          ) : (
+            <XCircle className="h-5 w-5 text-red-500" />
+          )}
+        </div>
+        <CardDescription>{question.question}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2">
+          {renderAnswer()}
+        </div>
+        {question.explanation && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <h4 className="font-medium text-blue-900 mb-2">Explanation:</h4>
+            <p className="text-blue-800 text-sm">{question.explanation}</p>
+          </div>
+        )}
+        {question.source && <SourceCitation source={question.source} quiz={quiz} />}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,43 @@
+import { ListChecks } from 'lucide-react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { QUESTION_TYPES, QUESTION_TYPE_LABELS } from '@/lib/questions'
+import type { QuestionType } from '@/types'
+
+interface QuestionTypePickerProps {
+  id: string
+  value: QuestionType[]
+  onChange: (types: QuestionType[]) => void
+}
+
+export function QuestionTypePicker({ id, value, onChange }: QuestionTypePickerProps) {
+  const toggle = (type: QuestionType, checked: boolean) => {
+    const next = checked ? [...value, type] : value.filter(item => item !== type)
+    // Keep at least one type selected so the prompt always has something to ask for
+    if (next.length === 0) return
+    onChange(QUESTION_TYPES.filter(item => next.includes(item)))
+  }
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center gap-2">
+        <ListChecks className="h-4 w-4 text-indigo-600" />
+        <Label className="text-sm font-medium">Question Types</Label>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+        {QUESTION_TYPES.map(type => (
+          <div key={type} className="flex items-center gap-2">
+            <Checkbox
+              id={`${id}-${type}`}
+              checked={value.includes(type)}
+              onCheckedChange={(checked) => toggle(type, checked === true)}
+            />
+            <Label htmlFor={`${id}-${type}`} className="text-sm font-normal">
+              {QUESTION_TYPE_LABELS[type]}
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react'
+import { Check, Eye, Loader2, ShieldCheck, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { QuestionEditor } from '@/components/quiz/QuestionEditor'
+import { regenerateQuestion, type QuizContext } from '@/lib/generation'
+import { checkQuizQuality, type QualityFlag } from '@/lib/quality'
+import { validateQuestion } from '@/lib/questions'
+import { cleanQuestion, fromDraft, toDraft, type DraftQuestion } from '@/lib/questionDrafts'
+import type { Question } from '@/types'
+
+interface QuizPreviewProps {
+  title: string
+  questions: Question[]
+  // Number of questions asked for, to explain a short quiz after cancelling
+  requested: number
+  cancelled: boolean
+  context: Omit<QuizContext, 'title'>
+  saving: boolean
+  onAccept: (title: string, questions: Question[]) => void
+  onDiscard: () => void
+}
+
+/**
+ * Shows a freshly generated quiz for review before anything is saved. The
+ * questions can be edited, removed or regenerated one by one; the parent
+ * remounts the preview for every new generation.
+ */
+export function QuizPreview({ title, questions, requested, cancelled, context, saving, onAccept, onDiscard }: QuizPreviewProps) {
+  const [draftTitle, setDraftTitle] = useState(title)
+  const [drafts, setDrafts] = useState<DraftQuestion[]>(() => questions.map(toDraft))
+  const [errors, setErrors] = useState<Record<string, string[]>>({})
+  const [formError, setFormError] = useState('')
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null)
+  const [qualityFlags, setQualityFlags] = useState<Record<string, QualityFlag[]>>({})
+  const [qualityChecked, setQualityChecked] = useState<'checking' | 'verified' | 'patterns'>('checking')
+
+  useEffect(() => {
+    const controller = new AbortController()
+    checkQuizQuality(questions, controller.signal).then(({ flags, verified }) => {
+      if (controller.signal.aborted) return
+      setQualityFlags(flags)
+      setQualityChecked(verified ? 'verified' : 'patterns')
+    })
+    return () => controller.abort()
+  }, [questions])
+
+  const updateQuestion = (index: number, question: DraftQuestion) => {
+    setDrafts(prev => prev.map((item, i) => (i === index ? question : item)))
+    setQualityFlags(prev => {
+      if (!prev[question.id]) return prev
+      const { [question.id]: _cleared, ...rest } = prev
+      return rest
+    })
+  }
+
+  const deleteQuestion = (index: number) => {
+    setDrafts(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const handleRegenerate = async (questionId: string) => {
+    const index = drafts.findIndex(question => question.id === questionId)
+    if (index === -1) return
+
+    setRegeneratingId(questionId)
+    try {
+      const replacement = await regenerateQuestion({ ...context, title: draftTitle }, drafts.map(fromDraft), index)
+      setDrafts(prev => prev.map(question => (question.id === questionId ? toDraft(replacement) : question)))
+      setQualityFlags(prev => {
+        const { [questionId]: _replaced, ...rest } = prev
+        return rest
+      })
+    } catch (error) {
+      console.error('Error regenerating question:', error)
+      alert(`Failed to regenerate question: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    } finally {
+      setRegeneratingId(null)
+    }
+  }
+
+  const handleAccept = () => {
+    const cleaned = drafts.map(fromDraft).map(cleanQuestion)
+    const questionErrors: Record<string, string[]> = {}
+    cleaned.forEach(question => {
+      const problems = validateQuestion(question)
+      if (problems.length > 0) questionErrors[question.id] = problems
+    })
+    setErrors(questionErrors)
+
+    if (!draftTitle.trim()) {
+      setFormError('The quiz needs a title.')
+      return
+    }
+    if (cleaned.length === 0) {
+      setFormError('The quiz needs at least one question.')
+      return
+    }
+    if (Object.keys(questionErrors).length > 0) {
+      setFormError(`${Object.keys(questionErrors).length} question(s) need fixing before the quiz can be saved.`)
+      return
+    }
+    setFormError('')
+    onAccept(draftTitle.trim(), cleaned)
+  }
+
+  const flaggedCount = Object.keys(qualityFlags).length
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Eye className="h-5 w-5 text-indigo-600" />
+            Preview
+          </CardTitle>
+          <CardDescription>
+            Nothing is saved until you accept the quiz.
+            {cancelled && ` Generation was cancelled after ${questions.length} of ${requested} questions.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="preview-title">Title *</Label>
+            <Input
+              id="preview-title"
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            {qualityChecked === 'checking' ? (
+              <Loader2 className="h-4 w-4 text-indigo-600 animate-spin" />
+            ) : (
+              <ShieldCheck className="h-4 w-4 text-indigo-600" />
+            )}
+            <span>
+              {qualityChecked === 'checking'
+                ? 'Checking the answer key...'
+                : flaggedCount > 0
+                  ? `${flaggedCount} question${flaggedCount === 1 ? '' : 's'} flagged for review`
+                  : 'No problems found in the answer key'}
+              {qualityChecked === 'patterns' && ' (the independent answer check failed; only wording was checked)'}
+            </span>
+          </div>
+
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+
+          <div className="flex flex-col sm:flex-row gap-2 sm:justify-end">
+            <Button variant="outline" onClick={onDiscard} disabled={saving}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Discard
+            </Button>
+            <Button onClick={handleAccept} disabled={saving || regeneratingId !== null}>
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Check className="h-4 w-4 mr-2" />
+              )}
+              Accept and Save ({drafts.length} question{drafts.length === 1 ? '' : 's'})
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        {drafts.map((question, index) => (
+          <QuestionEditor
+            key={question.id}
+            question={question}
+            index={index}
+            errors={errors[question.id] || []}
+            warnings={qualityFlags[question.id]}
+            regenerating={regeneratingId === question.id}
+            onChange={(updated) => updateQuestion(index, updated)}
+            onDelete={() => deleteQuestion(index)}
+            onRegenerate={() => handleRegenerate(question.id)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Languages, Loader2, Pencil } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { attemptRepository, quizRepository } from '@/lib/data'
+import { isExamAttempt, questionBreakdown } from '@/lib/attempts'
+import { LANGUAGE_LABELS, languageName } from '@/lib/presets'
+import { createQuizId } from '@/lib/sourceDocuments'
+import { translateQuiz } from '@/lib/translation'
+import type { Quiz, QuizAttempt } from '@/types'
+
+interface QuizTranslationsProps {
+  quiz: Quiz
+}
+
+interface QuizVersion {
+  quiz: Quiz
+  attempts: QuizAttempt[]
+}
+
+// Questions whose accuracy differs this much between languages are worth a look
+const ACCURACY_GAP = 30
+
+/**
+ * Editor section listing a quiz's translations with their exam results, and
+ * creating new ones. Translations share question ids with the original, so
+ * the same question can be compared across languages.
+ */
+export function QuizTranslations({ quiz }: QuizTranslationsProps) {
+  const navigate = useNavigate()
+  const originalId = quiz.translationOf ?? quiz.id
+
+  const [versions, setVersions] = useState<QuizVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [language, setLanguage] = useState('')
+  const [translating, setTranslating] = useState(false)
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const quizzes = await quizRepository.listTranslations(originalId)
+      const attempts = await Promise.all(quizzes.map(version => attemptRepository.listByQuiz(version.id)))
+      setVersions(quizzes.map((version, index) => ({ quiz: version, attempts: attempts[index].filter(isExamAttempt) })))
+    } catch (error) {
+      console.error('Error loading translations:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [originalId])
+
+  useEffect(() => {
+    loadVersions()
+  }, [loadVersions])
+
+  const usedLanguages = versions.map(version => version.quiz.language || 'en')
+  const targetLanguage = language || Object.keys(LANGUAGE_LABELS).find(code => !usedLanguages.includes(code)) || 'en'
+
+  const handleTranslate = async () => {
+    if (usedLanguages.includes(targetLanguage) &&
+        !confirm(`There is already a ${languageName(targetLanguage)} version of this quiz. Create another one?`)) return
+
+    setTranslating(true)
+    try {
+      const translated = await translateQuiz(quiz, targetLanguage)
+      const copy = await quizRepository.create({
+        id: createQuizId(),
+        ...translated,
+        topic: quiz.topic,
+        difficulty: quiz.difficulty,
+        isTimed: quiz.isTimed,
+        timeLimit: quiz.timeLimit,
+        defaultMode: quiz.defaultMode,
+        sourceUrl: quiz.sourceUrl,
+        libraryDocumentId: quiz.libraryDocumentId,
+        language: targetLanguage,
+        translationOf: originalId,
+        userId: quiz.userId
+      })
+      navigate(`/quiz/${copy.id}/edit`)
+    } catch (error) {
+      console.error('Error translating quiz:', error)
+      alert(`Failed to translate quiz: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    } finally {
+      setTranslating(false)
+    }
+  }
+
+  const averageScore = (attempts: QuizAttempt[]) =>
+    Math.round(attempts.reduce((sum, attempt) => sum + attempt.score, 0) / attempts.length)
+
+  // Accuracy of each of this quiz's questions in every version that has attempts
+  const accuracyByVersion = versions
+    .filter(version => version.attempts.length > 0)
+    .map(version => ({
+      language: languageName(version.quiz.language),
+      breakdown: questionBreakdown(version.attempts.map(attempt => ({ ...attempt, quiz: version.quiz })), question => question.id)
+    }))
+
+  const divergentQuestions = quiz.questions
+    .map((question, index) => {
+      const results = accuracyByVersion.flatMap(({ language, breakdown }) => {
+        const item = breakdown.find(entry => entry.key === question.id)
+        return item ? [{ language, accuracy: item.accuracy, answered: item.answered }] : []
+      })
+      const accuracies = results.map(result => result.accuracy)
+      const gap = results.length > 1 ? Math.max(...accuracies) - Math.min(...accuracies) : 0
+      return { id: question.id, number: index + 1, text: question.question, results, gap }
+    })
+    .filter(question => question.gap >= ACCURACY_GAP)
+    .sort((a, b) => b.gap - a.gap)
+    .slice(0, 5)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Languages className="h-5 w-5 text-indigo-600" />
+          Languages
+        </CardTitle>
+        <CardDescription>
+          Translations keep the same questions and answer key, so results can be compared across languages
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="h-12 bg-gray-200 rounded-lg animate-pulse" />
+        ) : (
+          versions.map(version => (
+            <div key={version.quiz.id} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 truncate flex items-center gap-2">
+                  {languageName(version.quiz.language)}
+                  {version.quiz.id === originalId && <Badge variant="outline">Original</Badge>}
+                  {version.quiz.id === quiz.id && <Badge variant="outline">This quiz</Badge>}
+                </p>
+                <p className="text-sm text-gray-600 truncate">
+                  {version.quiz.title} · {version.attempts.length === 0
+                    ? 'no attempts yet'
+                    : `${version.attempts.length} attempt${version.attempts.length === 1 ? '' : 's'}, ${averageScore(version.attempts)}% average`}
+                </p>
+              </div>
+              {version.quiz.id !== quiz.id && (
+                <Button variant="outline" size="sm" onClick={() => navigate(`/quiz/${version.quiz.id}/edit`)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+
+        {divergentQuestions.length > 0 && (
+          <div className="space-y-2 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-sm font-medium text-amber-800">
+              Questions answered very differently across languages (check the translation)
+            </p>
+            {divergentQuestions.map(question => (
+              <div key={question.id} className="text-sm text-amber-800">
+                <span className="font-medium">Q{question.number}.</span> {question.text}
+                <div className="text-amber-700">
+                  {question.results.map(result => `${result.language} ${result.accuracy}% (${result.answered})`).join(' · ')}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="translate-language">Translate the saved quiz into</Label>
+            <Select value={targetLanguage} onValueChange={setLanguage}>
+              <SelectTrigger id="translate-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(LANGUAGE_LABELS).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={handleTranslate} disabled={translating || loading}>
+            {translating ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Languages className="h-4 w-4 mr-2" />
+            )}
+            Translate Quiz
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,93 @@
+import type { ReactNode } from 'react'
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent
+} from '@dnd-kit/core'
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy
+} from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { GripVertical } from 'lucide-react'
+
+interface SortableListProps {
+  ids: string[]
+  onReorder: (fromIndex: number, toIndex: number) => void
+  children: ReactNode
+}
+
+interface SortableItemProps {
+  id: string
+  label: string
+  children: (handle: ReactNode) => ReactNode
+}
+
+/**
+ * Vertical drag-and-drop list. Items are moved with the pointer or, after
+ * focusing a handle, with Space/Enter to pick up and the arrow keys to move.
+ */
+export function SortableList({ ids, onReorder, children }: SortableListProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  )
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return
+    const fromIndex = ids.indexOf(String(active.id))
+    const toIndex = ids.indexOf(String(over.id))
+    if (fromIndex !== -1 && toIndex !== -1) onReorder(fromIndex, toIndex)
+  }
+
+  return (
+    <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+      <SortableContext items={ids} strategy={verticalListSortingStrategy}>
+        {children}
+      </SortableContext>
+    </DndContext>
+  )
+}
+
+// Renders its children with a drag handle; only the handle starts a drag so
+// inputs inside the item keep working normally
+export function SortableItem({ id, label, children }: SortableItemProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    setActivatorNodeRef,
+    transform,
+    transition,
+    isDragging
+  } = useSortable({ id })
+
+  const handle = (
+    <button
+      type="button"
+      ref={setActivatorNodeRef}
+      {...attributes}
+      {...listeners}
+      aria-label={label}
+      className="cursor-grab touch-none rounded p-1 text-gray-400 hover:text-gray-600 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
+    >
+      <GripVertical className="h-4 w-4" />
+    </button>
+  )
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={isDragging ? 'relative z-10 opacity-80' : undefined}
+    >
+      {children(handle)}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react'
+import { BookOpen, ExternalLink, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { libraryDocumentRepository } from '@/lib/data'
+import { findPassage } from '@/lib/documents'
+import type { LibraryDocument, QuestionSource, Quiz } from '@/types'
+
+interface SourceCitationProps {
+  source: QuestionSource
+  // Where the quiz was generated from, so the passage can be opened there
+  quiz?: Pick<Quiz, 'libraryDocumentId' | 'sourceDocuments' | 'sourceUrl'>
+}
+
+const encodeFragment = (text: string) => encodeURIComponent(text).replace(/-/g, '%2D')
+
+// A text fragment link makes the browser scroll to the quoted words and highlight them
+function pageLink(url: string, excerpt: string): string {
+  const words = excerpt.trim().replace(/[.…]+$/, '').split(/\s+/)
+  const fragment = words.length > 8
+    ? `${encodeFragment(words.slice(0, 4).join(' '))},${encodeFragment(words.slice(-4).join(' '))}`
+    : encodeFragment(words.join(' '))
+  return `${url.split('#')[0]}#:~:text=${fragment}`
+}
+
+function LibraryPassage({ documentId, source }: { documentId: string; source: QuestionSource }) {
+  const [document, setDocument] = useState<LibraryDocument | null>(null)
+  const [loading, setLoading] = useState(true)
+  const markRef = useRef<HTMLElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    libraryDocumentRepository.get(documentId)
+      .then(found => !cancelled && setDocument(found))
+      .catch((error: unknown) => console.error('Error loading source document:', error))
+      .finally(() => !cancelled && setLoading(false))
+    return () => { cancelled = true }
+  }, [documentId])
+
+  const passage = document ? findPassage(document.text, source.excerpt, source.offset) : null
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center' })
+  }, [passage?.start])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-gray-600">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+        Loading document...
+      </div>
+    )
+  }
+
+  if (!document) {
+    return <p className="text-sm text-gray-600">This document is no longer in your library.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      {!passage && (
+        <p className="text-sm text-amber-700">The passage was not found. The document may have been edited since the quiz was generated.</p>
+      )}
+      <div className="max-h-[60vh] overflow-y-auto whitespace-pre-wrap border rounded-lg p-4 text-sm text-gray-700">
+        {passage ? (
+          <>
+            {document.text.slice(0, passage.start)}
+            <mark ref={markRef} className="bg-yellow-200 rounded px-0.5">{document.text.slice(passage.start, passage.end)}</mark>
+            {document.text.slice(passage.end)}
+          </>
+        ) : document.text}
+      </div>
+    </div>
+  )
+}
+
+export function SourceCitation({ source, quiz }: SourceCitationProps) {
+  const [viewing, setViewing] = useState(false)
+  const location = [
+    source.section,
+    source.page !== undefined ? `Page ${source.page}` : null
+  ].filter(Boolean).join(' · ')
+
+  // Uploaded PDFs open at the cited page
+  const file = quiz?.sourceDocuments?.[0]
+  const link = file
+    ? `${file.url}${source.page !== undefined ? `#page=${source.page}` : ''}`
+    : quiz?.sourceUrl && pageLink(quiz.sourceUrl, source.excerpt)
+
+  return (
+    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+      <h4 className="font-medium text-gray-900 mb-2 flex items-center gap-2">
+        <BookOpen className="h-4 w-4 text-indigo-600" />
+        Source{location && <span className="text-sm font-normal text-gray-600">— {location}</span>}
+      </h4>
+      <blockquote className="border-l-2 border-indigo-300 pl-3 text-sm text-gray-700 italic">
+        “{source.excerpt}”
+      </blockquote>
+      {quiz?.libraryDocumentId ? (
+        <Button variant="link" size="sm" className="px-0 mt-1" onClick={() => setViewing(true)}>
+          Show in document
+        </Button>
+      ) : link && (
+        <Button variant="link" size="sm" className="px-0 mt-1" asChild>
+          <a href={link} target="_blank" rel="noopener noreferrer">
+            <ExternalLink className="h-4 w-4 mr-1" />
+            Open {file ? 'document' : 'page'}
+          </a>
+        </Button>
+      )}
+
+      {quiz?.libraryDocumentId && (
+        <Dialog open={viewing} onOpenChange={setViewing}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Source passage</DialogTitle>
+              <DialogDescription>{location || 'The cited passage is highlighted.'}</DialogDescription>
+            </DialogHeader>
+            {viewing && <LibraryPassage documentId={quiz.libraryDocumentId} source={source} />}
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  )
+}
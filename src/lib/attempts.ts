@@ -0,0 +1,136 @@
+import { isAnswerCorrect } from '@/lib/questions'
+import type { Question, QuestionAnswer, Quiz, QuizAttempt, QuizMode } from '@/types'
+
+/**
+ * Snapshot of an unfinished attempt, mirrored to localStorage on every
+ * change and to the `in_progress` attempt row in the database.
+ */
+export interface AttemptProgress {
+  attemptId: string
+  quizId: string
+  mode: QuizMode
+  answers: Record<string, QuestionAnswer>
+  currentQuestionIndex: number
+  parentAttemptId?: string
+  questionIds?: string[]
+  startedAt: string
+  updatedAt: string
+}
+
+const progressKey = (quizId: string) => `quizza:attempt-progress:${quizId}`
+
+export function createAttemptId(): string {
+  return `attempt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+export function isCompletedAttempt(attempt: Pick<QuizAttempt, 'status'>): boolean {
+  return (attempt.status ?? 'completed') === 'completed'
+}
+
+export function isRetryAttempt(attempt: Pick<QuizAttempt, 'parentAttemptId'>): boolean {
+  return !!attempt.parentAttemptId
+}
+
+// Practice runs and retries of missed questions are kept out of exam-style averages
+export function isExamAttempt(attempt: Pick<QuizAttempt, 'status' | 'mode' | 'parentAttemptId'>): boolean {
+  return isCompletedAttempt(attempt) && attempt.mode !== 'practice' && !isRetryAttempt(attempt)
+}
+
+/** The questions an attempt covered: all of them, or the subset a retry was built from. */
+export function attemptQuestions(questions: Question[], attempt: Pick<QuizAttempt, 'questionIds'>): Question[] {
+  const ids = attempt.questionIds
+  return ids ? questions.filter(question => ids.includes(question.id)) : questions
+}
+
+export function missedQuestions(questions: Question[], answers: Record<string, QuestionAnswer>): Question[] {
+  return questions.filter(question => !isAnswerCorrect(question, answers[question.id]))
+}
+
+export interface QuestionBreakdown {
+  key: string
+  answered: number
+  correct: number
+  accuracy: number
+}
+
+/**
+ * Per-question accuracy across attempts, grouped by `keyOf` (a question's
+ * objective or cognitive level, say). Questions without a key are skipped.
+ */
+export function questionBreakdown(
+  attempts: (QuizAttempt & { quiz?: Quiz })[],
+  keyOf: (question: Question) => string | undefined
+): QuestionBreakdown[] {
+  const groups = new Map<string, { answered: number; correct: number }>()
+  attempts.forEach(attempt => {
+    attemptQuestions(attempt.quiz?.questions ?? [], attempt).forEach(question => {
+      const key = keyOf(question)
+      if (!key) return
+      const group = groups.get(key) ?? { answered: 0, correct: 0 }
+      group.answered++
+      if (isAnswerCorrect(question, attempt.answers[question.id])) group.correct++
+      groups.set(key, group)
+    })
+  })
+
+  return [...groups].map(([key, { answered, correct }]) => ({
+    key,
+    answered,
+    correct,
+    accuracy: Math.round((correct / answered) * 100)
+  }))
+}
+
+// Number of correct answers, recovered from the stored percentage
+export function correctCount(attempt: Pick<QuizAttempt, 'score' | 'totalQuestions'>): number {
+  return Math.round((attempt.score * attempt.totalQuestions) / 100)
+}
+
+export function saveLocalProgress(progress: AttemptProgress) {
+  try {
+    localStorage.setItem(progressKey(progress.quizId), JSON.stringify(progress))
+  } catch (error) {
+    console.warn('Could not save attempt progress locally:', error)
+  }
+}
+
+export function loadLocalProgress(quizId: string): AttemptProgress | null {
+  try {
+    const stored = localStorage.getItem(progressKey(quizId))
+    return stored ? { mode: 'exam', ...JSON.parse(stored) } : null
+  } catch (error) {
+    console.warn('Could not read attempt progress:', error)
+    return null
+  }
+}
+
+export function clearLocalProgress(quizId: string) {
+  try {
+    localStorage.removeItem(progressKey(quizId))
+  } catch (error) {
+    console.warn('Could not clear attempt progress:', error)
+  }
+}
+
+export function progressFromAttempt(attempt: QuizAttempt): AttemptProgress {
+  return {
+    attemptId: attempt.id,
+    quizId: attempt.quizId,
+    mode: attempt.mode ?? 'exam',
+    answers: attempt.answers,
+    currentQuestionIndex: attempt.currentQuestionIndex ?? 0,
+    parentAttemptId: attempt.parentAttemptId,
+    questionIds: attempt.questionIds,
+    startedAt: attempt.startedAt || attempt.createdAt || attempt.completedAt,
+    updatedAt: attempt.updatedAt || attempt.createdAt || attempt.completedAt
+  }
+}
+
+/**
+ * Seconds left on a timed attempt, always measured from when the attempt
+ * first started so reloading the page cannot reset the clock.
+ */
+export function remainingSeconds(startedAt: string | Date, timeLimitMinutes: number, now: Date = new Date()): number {
+  const elapsed = Math.floor((now.getTime() - new Date(startedAt).getTime()) / 1000)
+  return Math.max(0, timeLimitMinutes * 60 - elapsed)
+}
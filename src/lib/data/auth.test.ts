@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { AuthState } from '@blinkdotnew/sdk'
+import { createLocalAuth } from './auth'
+
+vi.mock('@/blink/client', () => ({ blink: {} }))
+
+const memoryStore = () => {
+  const items = new Map<string, string>()
+  return { getItem: (key: string) => items.get(key) ?? null, setItem: (key: string, value: string) => void items.set(key, value) }
+}
+
+describe('createLocalAuth', () => {
+  it('signs in the same local user every time', async () => {
+    const store = memoryStore()
+    const user = await createLocalAuth(store).me()
+
+    expect(user).toMatchObject({ id: 'local_user', displayName: 'Local User' })
+    expect(await createLocalAuth(store).me()).toEqual(user)
+  })
+
+  it('keeps profile changes and tells subscribers', async () => {
+    const store = memoryStore()
+    const auth = createLocalAuth(store)
+    const states: AuthState[] = []
+    const unsubscribe = auth.onAuthStateChanged(state => states.push(state))
+
+    await auth.updateMe({ id: 'other', displayName: 'Ada' })
+    unsubscribe()
+    await auth.updateMe({ displayName: 'Grace' })
+
+    expect(states.map(state => [state.isAuthenticated, state.user?.displayName])).toEqual([[true, 'Local User'], [true, 'Ada']])
+    expect(await createLocalAuth(store).me()).toMatchObject({ id: 'local_user', displayName: 'Grace' })
+  })
+})
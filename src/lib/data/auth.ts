@@ -0,0 +1,61 @@
+import type { AuthState, BlinkUser } from '@blinkdotnew/sdk'
+import { blink } from '@/blink/client'
+
+type UserStore = Pick<Storage, 'getItem' | 'setItem'>
+
+/**
+ * The parts of `blink.auth` the app uses, so the signed-in user comes from
+ * the same place as the data.
+ */
+export interface AuthService {
+  me(): Promise<BlinkUser>
+  updateMe(updates: Partial<BlinkUser>): Promise<BlinkUser>
+  logout(): void
+  onAuthStateChanged(callback: (state: AuthState) => void): () => void
+}
+
+export function createBlinkAuth(): AuthService {
+  return blink.auth
+}
+
+const USER_KEY = 'quizza:local-user'
+
+function readUser(store: UserStore | null): BlinkUser {
+  const stored = store?.getItem(USER_KEY)
+  if (stored) return JSON.parse(stored)
+
+  const user: BlinkUser = { id: 'local_user', email: 'local@localhost', displayName: 'Local User', createdAt: new Date().toISOString() }
+  store?.setItem(USER_KEY, JSON.stringify(user))
+  return user
+}
+
+/**
+ * A single user who is always signed in, for the local and in-memory
+ * backends. Profile changes are kept in `store` like the data is.
+ */
+export function createLocalAuth(store: UserStore | null = localStorage): AuthService {
+  let user = readUser(store)
+  const listeners = new Set<(state: AuthState) => void>()
+  const state = (): AuthState => ({ user, tokens: null, isAuthenticated: true, isLoading: false })
+
+  return {
+    async me() {
+      return user
+    },
+    async updateMe(updates) {
+      user = { ...user, ...updates, id: user.id }
+      store?.setItem(USER_KEY, JSON.stringify(user))
+      listeners.forEach(listener => listener(state()))
+      return user
+    },
+    // There is no account to sign out of
+    logout() {},
+    onAuthStateChanged(callback) {
+      listeners.add(callback)
+      callback(state())
+      return () => {
+        listeners.delete(callback)
+      }
+    }
+  }
+}
@@ -0,0 +1,45 @@
+export type TableName = 'quizzes' | 'quizAttempts' | 'reviewCards' | 'libraryDocuments' | 'generationPresets' | 'promptTemplates'
+
+export type Row = Record<string, unknown>
+
+// Matches a field exactly, or with one of these comparison operators
+export interface FieldOperators {
+  eq?: unknown
+  neq?: unknown
+  gt?: string | number
+  gte?: string | number
+  lt?: string | number
+  lte?: string | number
+  in?: unknown[]
+  // SQL LIKE pattern with % wildcards; `ilike` ignores case
+  like?: string
+  ilike?: string
+  is?: null
+}
+
+// Field conditions, combined with AND. Blink's client (0.17) mangles `AND` and
+// `OR` groups into a broken query, so there are none: run one query per branch
+export type Where = Record<string, unknown>
+
+export interface QueryOptions {
+  where?: Where
+  orderBy?: Record<string, 'asc' | 'desc'>
+  limit?: number
+  offset?: number
+  select?: string[]
+}
+
+/**
+ * The subset of Blink's table operations the repositories use, so any store
+ * with the same shape can stand in for `blink.db`.
+ */
+export interface DataTable {
+  list(options?: QueryOptions): Promise<Row[]>
+  create(row: Row): Promise<Row>
+  createMany(rows: Row[]): Promise<Row[]>
+  update(id: string, changes: Row): Promise<Row>
+  delete(id: string): Promise<void>
+  count(options?: { where?: Where }): Promise<number>
+}
+
+export type DataBackend = Record<TableName, DataTable>
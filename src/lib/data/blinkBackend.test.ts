@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createBlinkBackend } from './blinkBackend'
+import { createAttemptRepository, createQuizRepository } from './repositories'
+
+vi.mock('@/blink/client', async () => {
+  const { createClient } = await import('@blinkdotnew/sdk')
+  return { blink: createClient({ projectId: 'test', authRequired: false }) }
+})
+
+// The query parameters Blink's client sends for each request, captured from `fetch`
+let sent: { table: string; params: Record<string, string> }[]
+
+const fetchStub = vi.fn(async (input: RequestInfo | URL) => {
+  const url = new URL(String(input))
+  sent.push({ table: url.pathname.split('/').pop()!, params: Object.fromEntries(url.searchParams) })
+  // Every count is 1, so every query is listed too
+  return new Response('[]', { headers: { 'Content-Type': 'application/json', 'Content-Range': '0-0/1' } })
+})
+
+const backend = createBlinkBackend()
+
+const paramsFor = (table: string) => sent.filter(request => request.table === table).map(request => request.params)
+
+beforeEach(() => {
+  sent = []
+  vi.stubGlobal('fetch', fetchStub)
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('queries sent to Blink', () => {
+  it('filters history pages by user, status, quiz ids and date', async () => {
+    const quizIds = Array.from({ length: 150 }, (_, index) => `quiz_${index}`)
+    await createAttemptRepository(backend).listPage('u1', {
+      quizIds,
+      completedAfter: '2026-01-01T00:00:00.000Z',
+      sortBy: 'date',
+      page: 1,
+      pageSize: 20
+    })
+
+    const pages = paramsFor('quiz_attempts')
+    // Two batches of quiz ids, each with and without a status, counted and listed
+    expect(pages).toHaveLength(8)
+    expect(pages.filter(params => params.status === 'is.null')).toHaveLength(4)
+    pages.forEach(params => {
+      expect(params).toMatchObject({
+        user_id: 'eq.u1',
+        completed_at: `gte.${encodeURIComponent('2026-01-01T00:00:00.000Z')}`
+      })
+      expect(['eq.completed', 'is.null']).toContain(params.status)
+      expect(params.quiz_id).toMatch(/^in\.\(/)
+      expect(params.quiz_id.split(',').length).toBeLessThanOrEqual(100)
+      expect(params).not.toHaveProperty('or')
+      expect(params).not.toHaveProperty('and')
+    })
+  })
+
+  it('filters summaries by user and status, without writing', async () => {
+    await createAttemptRepository(backend).listSummaries('u1')
+
+    expect(paramsFor('quiz_attempts')).toEqual([
+      expect.objectContaining({ user_id: 'eq.u1', status: 'eq.completed' }),
+      expect.objectContaining({ user_id: 'eq.u1', status: 'is.null' })
+    ])
+  })
+
+  it('keeps the id and difficulty filters of a quiz search', async () => {
+    await createQuizRepository(backend).findIds(['quiz_1', 'quiz_2'], { search: 'cells', difficulty: 'hard' })
+
+    const searches = paramsFor('quizzes')
+    expect(searches).toHaveLength(2)
+    searches.forEach(params => {
+      expect(params).toMatchObject({ id: 'in.(quiz_1,quiz_2)', difficulty: 'eq.hard' })
+      expect(params).not.toHaveProperty('or')
+    })
+    expect(searches.map(params => params.title ?? params.topic)).toEqual(['ilike.%25cells%25', 'ilike.%25cells%25'])
+  })
+
+  it('lists translations with plain filters', async () => {
+    await createQuizRepository(backend).listTranslations('quiz_1')
+
+    expect(paramsFor('quizzes')).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: 'in.(quiz_1)' }),
+      expect.objectContaining({ translation_of: 'eq.quiz_1' })
+    ]))
+  })
+})
@@ -0,0 +1,15 @@
+import { blink } from '@/blink/client'
+import type { DataBackend } from './backend'
+
+export function createBlinkBackend(): DataBackend {
+  // Blink creates tables on first use, so its client has no typings for them
+  const db = blink.db as unknown as DataBackend
+  return {
+    quizzes: db.quizzes,
+    quizAttempts: db.quizAttempts,
+    reviewCards: db.reviewCards,
+    libraryDocuments: db.libraryDocuments,
+    generationPresets: db.generationPresets,
+    promptTemplates: db.promptTemplates
+  }
+}
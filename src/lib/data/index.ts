@@ -0,0 +1,66 @@
+import { createBlinkAuth, createLocalAuth, type AuthService } from './auth'
+import type { DataBackend } from './backend'
+import { createBlinkBackend } from './blinkBackend'
+import { createLocalBackend } from './localBackend'
+import {
+  createAttemptRepository,
+  createGenerationPresetRepository,
+  createLibraryDocumentRepository,
+  createPromptTemplateRepository,
+  createQuizRepository,
+  createReviewCardRepository
+} from './repositories'
+
+export type { AuthService } from './auth'
+export type { DataBackend, DataTable } from './backend'
+export type {
+  AttemptPageQuery,
+  AttemptRepository,
+  AttemptSummary,
+  GenerationPresetRepository,
+  LibraryDocumentRepository,
+  LibraryDocumentSummary,
+  NewAttempt,
+  NewGenerationPreset,
+  NewLibraryDocument,
+  NewPromptTemplate,
+  NewQuiz,
+  PromptTemplateRepository,
+  QuizFilters,
+  QuizRepository,
+  ReviewCardRepository
+} from './repositories'
+export { createLocalAuth } from './auth'
+export { createLocalBackend } from './localBackend'
+export {
+  createAttemptRepository,
+  createGenerationPresetRepository,
+  createLibraryDocumentRepository,
+  createPromptTemplateRepository,
+  createQuizRepository,
+  createReviewCardRepository
+} from './repositories'
+
+/**
+ * `VITE_DATA_BACKEND=local` keeps all data in localStorage and `memory` keeps
+ * it for the current page only, so the app can run without the Blink database.
+ * Both sign in a local user instead of a Blink account.
+ */
+function selectBackend(): { backend: DataBackend; auth: AuthService } {
+  switch (import.meta.env.VITE_DATA_BACKEND) {
+    case 'local': return { backend: createLocalBackend(), auth: createLocalAuth() }
+    case 'memory': return { backend: createLocalBackend(null), auth: createLocalAuth(null) }
+    default: return { backend: createBlinkBackend(), auth: createBlinkAuth() }
+  }
+}
+
+const { backend, auth } = selectBackend()
+
+export { auth }
+
+export const quizRepository = createQuizRepository(backend)
+export const attemptRepository = createAttemptRepository(backend)
+export const reviewCardRepository = createReviewCardRepository(backend)
+export const libraryDocumentRepository = createLibraryDocumentRepository(backend)
+export const generationPresetRepository = createGenerationPresetRepository(backend)
+export const promptTemplateRepository = createPromptTemplateRepository(backend)
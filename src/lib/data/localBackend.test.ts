@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import type { Row } from './backend'
+import { createLocalBackend } from './localBackend'
+
+const rows = [
+  { id: 'a', userId: 'u1', status: 'completed', score: 90 },
+  { id: 'b', userId: 'u1', status: 'in_progress', score: 40 },
+  { id: 'c', userId: 'u1', score: 70 },
+  { id: 'd', userId: 'u2', status: 'completed', score: 60 }
+]
+
+async function seeded() {
+  const backend = createLocalBackend(null)
+  await backend.quizAttempts.createMany(rows)
+  return backend.quizAttempts
+}
+
+const ids = (found: Row[]) => found.map(row => row.id)
+
+describe('createLocalBackend', () => {
+  it('combines field conditions with AND', async () => {
+    const table = await seeded()
+    expect(ids(await table.list({ where: { userId: 'u1', status: 'completed' } }))).toEqual(['a'])
+    expect(ids(await table.list({ where: { userId: 'u1', score: { gte: 70 } } }))).toEqual(['a', 'c'])
+  })
+
+  it('rejects AND and OR groups, which Blink cannot send', async () => {
+    const table = await seeded()
+    await expect(table.list({ where: { userId: 'u2', OR: [{ status: 'completed' }] } })).rejects.toThrow(/OR groups/)
+    await expect(table.count({ where: { AND: [{ userId: 'u2' }] } })).rejects.toThrow(/AND and OR/)
+    await expect(createLocalBackend(null).quizzes.list({ where: { OR: [] } })).rejects.toThrow()
+  })
+
+  it('leaves out fields compared with undefined or null', async () => {
+    const table = await seeded()
+    expect(await table.count({ where: { userId: 'u1', status: undefined } })).toBe(3)
+  })
+
+  it('treats missing values like SQL nulls', async () => {
+    const table = await seeded()
+    expect(ids(await table.list({ where: { status: { neq: 'in_progress' } } }))).toEqual(['a', 'd'])
+    expect(ids(await table.list({ where: { status: { is: null } } }))).toEqual(['c'])
+  })
+
+  it('only applies the last operator of a field, like the query Blink sends', async () => {
+    const table = await seeded()
+    expect(ids(await table.list({ where: { score: { gte: 50, lte: 60 } } }))).toEqual(['b', 'd'])
+  })
+
+  it('sorts, pages and selects fields', async () => {
+    const table = await seeded()
+    const page = await table.list({ orderBy: { score: 'desc' }, limit: 2, offset: 1, select: ['id', 'score'] })
+    expect(page).toEqual([{ id: 'c', score: 70 }, { id: 'd', score: 60 }])
+  })
+
+  it('keeps rows in the given store', async () => {
+    const stored = new Map<string, string>()
+    const store = { getItem: (key: string) => stored.get(key) ?? null, setItem: (key: string, value: string) => void stored.set(key, value) }
+    await createLocalBackend(store).quizzes.create({ id: 'q1', title: 'Kept' })
+    expect(await createLocalBackend(store).quizzes.list()).toEqual([{ id: 'q1', title: 'Kept' }])
+  })
+})
@@ -0,0 +1,125 @@
+import type { DataBackend, DataTable, FieldOperators, QueryOptions, Row, TableName, Where } from './backend'
+
+type RowStore = Pick<Storage, 'getItem' | 'setItem'>
+
+const TABLES: TableName[] = ['quizzes', 'quizAttempts', 'reviewCards', 'libraryDocuments', 'generationPresets', 'promptTemplates']
+const storageKey = (table: TableName) => `quizza:data:${table}`
+
+const isOperators = (value: unknown): value is FieldOperators =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const likePattern = (pattern: string, flags: string) =>
+  new RegExp('^' + pattern.split('%').map(escapeRegExp).join('.*') + '$', flags)
+
+function matchesField(actual: unknown, expected: unknown): boolean {
+  if (!isOperators(expected)) return actual === expected
+
+  // Blink sends one query parameter per field, so of several operators only the last counts
+  const operators = Object.entries(expected)
+  if (operators.length === 0) return true
+  const [operator, value] = operators[operators.length - 1] as [keyof FieldOperators, unknown]
+
+  // As in SQL, a missing value fails every comparison but `is null`
+  if (operator === 'is') return actual === undefined || actual === null
+  if (actual === undefined || actual === null) return false
+
+  switch (operator) {
+    case 'eq': return actual === value
+    case 'neq': return actual !== value
+    case 'in': return Array.isArray(value) && value.includes(actual)
+    case 'like': return likePattern(String(value), '').test(String(actual))
+    case 'ilike': return likePattern(String(value), 'i').test(String(actual))
+    // Range operators take a string or a number (see FieldOperators)
+    case 'gt': return actual > (value as string | number)
+    case 'gte': return actual >= (value as string | number)
+    case 'lt': return actual < (value as string | number)
+    case 'lte': return actual <= (value as string | number)
+    default: return true
+  }
+}
+
+/**
+ * Evaluates a where clause the way Blink's client sends it: fields compared
+ * with null or undefined are left out, and `AND` or `OR` groups, which it
+ * cannot send, are rejected so they fail here too.
+ */
+function whereFilter(where: Where = {}): (row: Row) => boolean {
+  if ('AND' in where || 'OR' in where) {
+    throw new Error('AND and OR groups cannot be sent to Blink; run one query per branch instead')
+  }
+  const fields = Object.entries(where).filter(([, expected]) => expected !== undefined && expected !== null)
+  return row => fields.every(([field, expected]) => matchesField(row[field], expected))
+}
+
+function query(rows: Row[], { where, orderBy, limit, offset = 0, select }: QueryOptions = {}): Row[] {
+  let result = rows.filter(whereFilter(where))
+
+  if (orderBy) {
+    const [field, direction] = Object.entries(orderBy)[0]
+    const sign = direction === 'desc' ? -1 : 1
+    result = [...result].sort((a, b) => {
+      if (a[field] === b[field]) return 0
+      if (a[field] === undefined || a[field] === null) return 1
+      if (b[field] === undefined || b[field] === null) return -1
+      return a[field] > b[field] ? sign : -sign
+    })
+  }
+
+  const page = result.slice(offset, limit === undefined ? undefined : offset + limit)
+  return select ? page.map(row => Object.fromEntries(select.map(field => [field, row[field]]))) : page
+}
+
+function createTable(table: TableName, store: RowStore | null): DataTable {
+  let memory: Row[] = []
+
+  const read = (): Row[] => {
+    if (!store) return memory
+    const stored = store.getItem(storageKey(table))
+    return stored ? JSON.parse(stored) : []
+  }
+  const write = (rows: Row[]) => {
+    if (store) store.setItem(storageKey(table), JSON.stringify(rows))
+    else memory = rows
+  }
+  const withId = (row: Row): Row => ({ ...row, id: row.id ?? `${table}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` })
+
+  return {
+    async list(options) {
+      return query(read(), options)
+    },
+    async create(row) {
+      const created = withId(row)
+      write([...read(), created])
+      return created
+    },
+    async createMany(rows) {
+      const created = rows.map(withId)
+      write([...read(), ...created])
+      return created
+    },
+    async update(id, changes) {
+      const rows = read()
+      const index = rows.findIndex(row => row.id === id)
+      if (index === -1) throw new Error(`No ${table} row with id ${id}`)
+      rows[index] = { ...rows[index], ...changes, id }
+      write(rows)
+      return rows[index]
+    },
+    async delete(id) {
+      write(read().filter(row => row.id !== id))
+    },
+    async count(options) {
+      return query(read(), options).length
+    }
+  }
+}
+
+/**
+ * Stand-in for `blink.db` that keeps every table in localStorage, or only in
+ * memory when no store is given (useful for tests).
+ */
+export function createLocalBackend(store: RowStore | null = localStorage): DataBackend {
+  return Object.fromEntries(TABLES.map(table => [table, createTable(table, store)])) as DataBackend
+}
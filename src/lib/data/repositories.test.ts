@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import type { Question } from '@/types'
+import type { DataBackend } from './backend'
+import { createLocalBackend } from './localBackend'
+import {
+  createAttemptRepository,
+  createQuizRepository,
+  createReviewCardRepository,
+  type NewQuiz
+} from './repositories'
+
+const question: Question = {
+  id: 'q_1',
+  type: 'multiple_choice',
+  question: 'What is 2 + 2?',
+  options: ['3', '4'],
+  correctAnswer: 1,
+  explanation: 'Two and two make four.'
+}
+
+const newQuiz = (id: string, changes: Partial<NewQuiz> = {}): NewQuiz => ({
+  id,
+  title: `Quiz ${id}`,
+  difficulty: 'medium',
+  questions: [question],
+  isTimed: false,
+  userId: 'u1',
+  ...changes
+})
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n)).toISOString()
+
+let backend: DataBackend
+
+beforeEach(() => {
+  backend = createLocalBackend(null)
+})
+
+describe('quiz repository', () => {
+  it('stores questions as JSON and reads them back', async () => {
+    const quizzes = createQuizRepository(backend)
+    await quizzes.create(newQuiz('quiz_1'))
+
+    const [row] = await backend.quizzes.list()
+    expect(typeof row.questions).toBe('string')
+    expect((await createQuizRepository(backend).get('quiz_1'))?.questions).toEqual([question])
+  })
+
+  it('leaves quizzes that no longer exist out of getMany', async () => {
+    const quizzes = createQuizRepository(backend)
+    await quizzes.create(newQuiz('quiz_1'))
+
+    const found = await quizzes.getMany(['quiz_1', 'missing'])
+    expect([...found.keys()]).toEqual(['quiz_1'])
+  })
+
+  it('finds quizzes by title or topic, only among the given ids', async () => {
+    const quizzes = createQuizRepository(backend)
+    await quizzes.create(newQuiz('quiz_1', { title: 'Cell biology' }))
+    await quizzes.create(newQuiz('quiz_2', { title: 'Algebra', topic: 'Biology of numbers', difficulty: 'hard' }))
+    await quizzes.create(newQuiz('quiz_3', { title: 'Marine biology' }))
+    await quizzes.create(newQuiz('quiz_4', { title: 'Biology', userId: 'u2' }))
+
+    const ids = ['quiz_1', 'quiz_2', 'quiz_3']
+    expect((await quizzes.findIds(ids, { search: 'BIOLOGY' })).sort()).toEqual(ids)
+    expect(await quizzes.findIds(ids, { search: 'biology', difficulty: 'hard' })).toEqual(['quiz_2'])
+    expect(await quizzes.findIds(['quiz_1'], { search: 'algebra' })).toEqual([])
+  })
+
+  it('searches ids in batches', async () => {
+    const quizzes = createQuizRepository(backend)
+    const ids = Array.from({ length: 250 }, (_, index) => `quiz_${index}`)
+    await Promise.all(ids.map(id => quizzes.create(newQuiz(id))))
+
+    expect(await quizzes.findIds(ids, {})).toHaveLength(250)
+  })
+
+  it('lists a quiz with its translations, oldest first', async () => {
+    const quizzes = createQuizRepository(backend)
+    await quizzes.create(newQuiz('original', { createdAt: day(1) }))
+    await quizzes.create(newQuiz('spanish', { translationOf: 'original', language: 'es', createdAt: day(3) }))
+    await quizzes.create(newQuiz('french', { translationOf: 'original', language: 'fr', createdAt: day(2) }))
+    await quizzes.create(newQuiz('other', { createdAt: day(4) }))
+
+    const versions = await quizzes.listTranslations('original')
+    expect(versions.map(quiz => quiz.id)).toEqual(['original', 'french', 'spanish'])
+  })
+})
+
+describe('attempt repository', () => {
+  const attempt = (id: string, changes: Record<string, unknown> = {}) => ({
+    id,
+    quizId: 'quiz_1',
+    userId: 'u1',
+    answers: '{}',
+    score: 50,
+    totalQuestions: 1,
+    timeSpent: 30,
+    status: 'completed',
+    completedAt: day(1),
+    ...changes
+  })
+
+  it('lists only the completed attempts of the user, including those saved without a status', async () => {
+    await backend.quizAttempts.createMany([
+      attempt('done'),
+      attempt('legacy', { status: undefined }),
+      attempt('running', { status: 'in_progress' }),
+      attempt('someone_else', { userId: 'u2' })
+    ])
+    const attempts = createAttemptRepository(backend)
+
+    expect((await attempts.listSummaries('u1')).map(summary => summary.id).sort()).toEqual(['done', 'legacy'])
+    // Reading history never writes to the attempts
+    expect((await backend.quizAttempts.list({ where: { id: 'legacy' } }))[0].status).toBeUndefined()
+  })
+
+  it('merges attempts saved without a status into the pages in order', async () => {
+    await backend.quizAttempts.createMany([
+      attempt('new', { completedAt: day(3), score: 20 }),
+      attempt('legacy', { status: undefined, completedAt: day(2), score: 90 }),
+      attempt('old', { completedAt: day(1), score: 60 })
+    ])
+    const attempts = createAttemptRepository(backend)
+
+    const byDate = await attempts.listPage('u1', { sortBy: 'date', page: 1, pageSize: 2 })
+    expect(byDate.total).toBe(3)
+    expect(byDate.attempts.map(item => item.id)).toEqual(['new', 'legacy'])
+    expect((await attempts.listPage('u1', { sortBy: 'score', page: 2, pageSize: 2 })).attempts.map(item => item.id)).toEqual(['new'])
+  })
+
+  it('pages completed attempts with the quiz and date filters', async () => {
+    await backend.quizAttempts.createMany([
+      ...Array.from({ length: 5 }, (_, index) => attempt(`a${index}`, { completedAt: day(index + 1), score: index * 10 })),
+      attempt('other_quiz', { quizId: 'quiz_2', completedAt: day(9) }),
+      attempt('other_user', { userId: 'u2', completedAt: day(9) }),
+      attempt('running', { status: 'in_progress', completedAt: day(9) })
+    ])
+    const attempts = createAttemptRepository(backend)
+
+    const first = await attempts.listPage('u1', { quizIds: ['quiz_1'], sortBy: 'date', page: 1, pageSize: 2 })
+    expect(first.total).toBe(5)
+    expect(first.attempts.map(item => item.id)).toEqual(['a4', 'a3'])
+
+    const recent = await attempts.listPage('u1', { completedAfter: day(4), sortBy: 'score', page: 1, pageSize: 10 })
+    expect(recent.attempts.map(item => item.id)).toEqual(['other_quiz', 'a4', 'a3'])
+  })
+
+  it('pages across quiz id batches in order', async () => {
+    const quizIds = Array.from({ length: 250 }, (_, index) => `quiz_${index}`)
+    await backend.quizAttempts.createMany(quizIds.map((quizId, index) =>
+      attempt(`a${index}`, { quizId, completedAt: new Date(Date.UTC(2026, 0, 1, 0, index)).toISOString() })
+    ))
+    const attempts = createAttemptRepository(backend)
+
+    const page = await attempts.listPage('u1', { quizIds, sortBy: 'date', page: 2, pageSize: 3 })
+    expect(page.total).toBe(250)
+    expect(page.attempts.map(item => item.id)).toEqual(['a246', 'a245', 'a244'])
+  })
+
+  it('finds the latest in-progress attempt of a quiz', async () => {
+    await backend.quizAttempts.createMany([
+      attempt('older', { status: 'in_progress', updatedAt: day(1) }),
+      attempt('newer', { status: 'in_progress', updatedAt: day(2) }),
+      attempt('done', { updatedAt: day(3) })
+    ])
+
+    expect((await createAttemptRepository(backend).findInProgress('u1', 'quiz_1'))?.id).toBe('newer')
+  })
+})
+
+describe('review card repository', () => {
+  const card = (id: string, quizId: string, questionId: string, dueAt: string) => ({
+    id,
+    userId: 'u1',
+    quizId,
+    questionId,
+    easeFactor: 2.5,
+    interval: 1,
+    repetitions: 1,
+    dueAt,
+    createdAt: day(1),
+    updatedAt: day(1)
+  })
+
+  it('counts due cards and deletes the cards of a quiz or some of its questions', async () => {
+    const cards = createReviewCardRepository(backend)
+    await cards.createMany([
+      card('c1', 'quiz_1', 'q_1', day(1)),
+      card('c2', 'quiz_1', 'q_2', day(2)),
+      card('c3', 'quiz_2', 'q_1', day(1)),
+      card('c4', 'quiz_2', 'q_2', day(20))
+    ])
+    expect(await cards.countDue('u1', new Date(day(10)))).toBe(3)
+
+    await cards.deleteByQuiz('quiz_1', ['q_2'])
+    expect((await cards.listByUser('u1')).map(item => item.id)).toEqual(['c1', 'c3', 'c4'])
+
+    await cards.deleteByQuiz('quiz_2')
+    expect((await cards.listByUser('u1')).map(item => item.id)).toEqual(['c1'])
+  })
+})
@@ -0,0 +1,561 @@
+import { AUDIENCE_LABELS, TONE_LABELS } from '@/lib/presets'
+import { parseQuestions } from '@/lib/questions'
+import type { AttemptStatus, AudienceLevel, GenerationPreset, LibraryDocument, PromptTemplate, Quiz, QuizAttempt, QuizTone, ReviewCard, SourceDocument } from '@/types'
+import type { DataBackend, Row, Where } from './backend'
+
+// Blink returns booleans and numbers as whatever the column held: true, 1, '1', '0'...
+const toBoolean = (value: unknown) => value === true || value === 1 || value === '1' || value === 'true'
+
+const toNumber = (value: unknown, fallback = 0) => {
+  const number = Number(value)
+  return Number.isFinite(number) ? number : fallback
+}
+
+// Empty text columns come back as null
+const toText = (value: unknown, fallback = '') =>
+  value === null || value === undefined ? fallback : String(value)
+
+const toOptionalText = (value: unknown) => toText(value) || undefined
+
+function toOneOf<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? value as T : fallback
+}
+
+const DIFFICULTIES: Quiz['difficulty'][] = ['easy', 'medium', 'hard']
+const TONES = Object.keys(TONE_LABELS) as QuizTone[]
+const AUDIENCES = Object.keys(AUDIENCE_LABELS) as AudienceLevel[]
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string') return (value as T) ?? fallback
+  try {
+    return JSON.parse(value)
+  } catch {
+    return fallback
+  }
+}
+
+export function toQuiz(row: Row): Quiz {
+  return {
+    id: toText(row.id),
+    title: toText(row.title),
+    description: toOptionalText(row.description),
+    topic: toOptionalText(row.topic),
+    difficulty: toOneOf(row.difficulty, DIFFICULTIES, 'medium'),
+    questions: parseQuestions(row.questions),
+    isTimed: toBoolean(row.isTimed),
+    timeLimit: row.timeLimit === null || row.timeLimit === undefined ? null : toNumber(row.timeLimit),
+    defaultMode: row.defaultMode === 'practice' ? 'practice' : 'exam',
+    sourceDocuments: parseJson<SourceDocument[]>(row.sourceDocuments, []),
+    sourceUrl: toOptionalText(row.sourceUrl),
+    libraryDocumentId: toOptionalText(row.libraryDocumentId),
+    language: toOptionalText(row.language),
+    translationOf: toOptionalText(row.translationOf),
+    userId: toText(row.userId),
+    createdAt: toText(row.createdAt),
+    updatedAt: toText(row.updatedAt)
+  }
+}
+
+function fromQuiz(quiz: Partial<Quiz>): Row {
+  const row: Row = { ...quiz }
+  if (quiz.questions) row.questions = JSON.stringify(quiz.questions)
+  if (quiz.sourceDocuments) row.sourceDocuments = JSON.stringify(quiz.sourceDocuments)
+  return row
+}
+
+export function toAttempt(row: Row): QuizAttempt {
+  return {
+    id: toText(row.id),
+    quizId: toText(row.quizId),
+    userId: toText(row.userId),
+    answers: parseJson(row.answers, {}),
+    score: toNumber(row.score),
+    totalQuestions: toNumber(row.totalQuestions),
+    timeSpent: toNumber(row.timeSpent),
+    // Attempts saved before resuming existed have no status and are completed
+    status: toOneOf<AttemptStatus>(row.status, ['in_progress', 'completed', 'abandoned'], 'completed'),
+    mode: row.mode === 'practice' ? 'practice' : 'exam',
+    startedAt: toOptionalText(row.startedAt),
+    currentQuestionIndex: toNumber(row.currentQuestionIndex),
+    parentAttemptId: toOptionalText(row.parentAttemptId),
+    questionIds: row.questionIds ? parseJson<string[]>(row.questionIds, []) : undefined,
+    completedAt: toText(row.completedAt),
+    createdAt: toOptionalText(row.createdAt),
+    updatedAt: toOptionalText(row.updatedAt)
+  }
+}
+
+function fromAttempt(attempt: Partial<QuizAttempt>): Row {
+  // The joined quiz is only for display and never stored on the attempt
+  const { quiz: _quiz, ...row }: Row = { ...attempt }
+  if (attempt.answers) row.answers = JSON.stringify(attempt.answers)
+  if (attempt.questionIds) row.questionIds = JSON.stringify(attempt.questionIds)
+  return row
+}
+
+export function toReviewCard(row: Row): ReviewCard {
+  return {
+    id: toText(row.id),
+    userId: toText(row.userId),
+    quizId: toText(row.quizId),
+    questionId: toText(row.questionId),
+    easeFactor: toNumber(row.easeFactor, 2.5),
+    interval: toNumber(row.interval),
+    repetitions: toNumber(row.repetitions),
+    dueAt: toText(row.dueAt),
+    lastReviewedAt: toOptionalText(row.lastReviewedAt),
+    createdAt: toText(row.createdAt),
+    updatedAt: toText(row.updatedAt)
+  }
+}
+
+export function toLibraryDocument(row: Row): LibraryDocument {
+  return {
+    id: toText(row.id),
+    userId: toText(row.userId),
+    title: toText(row.title),
+    fileName: toOptionalText(row.fileName),
+    size: toNumber(row.size),
+    pageCount: toNumber(row.pageCount, 1),
+    text: toText(row.text),
+    createdAt: toText(row.createdAt),
+    updatedAt: toText(row.updatedAt)
+  }
+}
+
+export function toGenerationPreset(row: Row): GenerationPreset {
+  return {
+    id: toText(row.id),
+    userId: toText(row.userId),
+    name: toText(row.name),
+    isDefault: toBoolean(row.isDefault),
+    difficulty: toOneOf(row.difficulty, DIFFICULTIES, 'medium'),
+    questionCount: toNumber(row.questionCount, 10),
+    questionTypes: parseJson(row.questionTypes, ['multiple_choice']),
+    isTimed: toBoolean(row.isTimed),
+    timeLimit: toNumber(row.timeLimit, 30),
+    defaultMode: row.defaultMode === 'practice' ? 'practice' : 'exam',
+    language: toText(row.language) || 'en',
+    tone: toOneOf(row.tone, TONES, 'neutral'),
+    audience: toOneOf(row.audience, AUDIENCES, 'general'),
+    instructions: toText(row.instructions),
+    objectives: parseJson(row.objectives, []),
+    levelMix: { recall: 0, understand: 0, apply: 0, analyze: 0, ...parseJson(row.levelMix, {}) },
+    createdAt: toText(row.createdAt),
+    updatedAt: toText(row.updatedAt)
+  }
+}
+
+function fromGenerationPreset(preset: Partial<GenerationPreset>): Row {
+  const row: Row = { ...preset }
+  if (preset.questionTypes) row.questionTypes = JSON.stringify(preset.questionTypes)
+  if (preset.objectives) row.objectives = JSON.stringify(preset.objectives)
+  if (preset.levelMix) row.levelMix = JSON.stringify(preset.levelMix)
+  return row
+}
+
+export function toPromptTemplate(row: Row): PromptTemplate {
+  return {
+    id: toText(row.id),
+    userId: toText(row.userId),
+    name: toText(row.name),
+    body: toText(row.body),
+    createdAt: toText(row.createdAt),
+    updatedAt: toText(row.updatedAt)
+  }
+}
+
+type NewRecord<T extends { id: string; createdAt?: string; updatedAt?: string }> =
+  Omit<T, 'id' | 'createdAt' | 'updatedAt'> & Partial<Pick<T, 'id' | 'createdAt' | 'updatedAt'>>
+
+export type NewQuiz = NewRecord<Quiz>
+export type NewLibraryDocument = NewRecord<LibraryDocument>
+export type NewGenerationPreset = NewRecord<GenerationPreset>
+export type NewPromptTemplate = NewRecord<PromptTemplate>
+// Attempts are created when they start and only get `completedAt` when submitted
+export type NewAttempt = Omit<NewRecord<QuizAttempt>, 'completedAt'> & { completedAt?: string }
+
+const timestamps = (record: { createdAt?: string; updatedAt?: string }) => {
+  const now = new Date().toISOString()
+  return { createdAt: record.createdAt ?? now, updatedAt: record.updatedAt ?? record.createdAt ?? now }
+}
+
+// Ids per `in` query when loading quizzes in bulk
+const QUIZ_BATCH_SIZE = 100
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size))
+  return chunks
+}
+
+export interface QuizFilters {
+  // Matched against the title and topic
+  search?: string
+  difficulty?: Quiz['difficulty']
+}
+
+export interface QuizRepository {
+  get(id: string): Promise<Quiz | null>
+  // Quizzes that no longer exist are left out of the map
+  getMany(ids: string[]): Promise<Map<string, Quiz>>
+  // Which of `ids` match the filters, evaluated by the backend
+  findIds(ids: string[], filters: QuizFilters): Promise<string[]>
+  listByUser(userId: string): Promise<Quiz[]>
+  // The original quiz and every translation of it, oldest first
+  listTranslations(originalId: string): Promise<Quiz[]>
+  create(quiz: NewQuiz): Promise<Quiz>
+  update(id: string, changes: Partial<Quiz>): Promise<Quiz>
+  delete(id: string): Promise<void>
+}
+
+/**
+ * Quizzes are cached by id for the lifetime of the page, so pages that show
+ * attempts can look up their quizzes without a query per attempt. Writes made
+ * through the repository keep the cache current.
+ */
+export function createQuizRepository(backend: DataBackend): QuizRepository {
+  const table = backend.quizzes
+  const cache = new Map<string, Quiz>()
+
+  const remember = (quiz: Quiz) => {
+    cache.set(quiz.id, quiz)
+    return quiz
+  }
+
+  const getMany = async (ids: string[]) => {
+    const missing = [...new Set(ids)].filter(id => !cache.has(id))
+    const batches = chunk(missing, QUIZ_BATCH_SIZE)
+
+    const rows = await Promise.all(batches.map(batch => table.list({ where: { id: { in: batch } } })))
+    rows.flat().forEach(row => remember(toQuiz(row)))
+
+    const found = new Map<string, Quiz>()
+    ids.forEach(id => {
+      const quiz = cache.get(id)
+      if (quiz) found.set(id, quiz)
+    })
+    return found
+  }
+
+  return {
+    async get(id) {
+      return (await getMany([id])).get(id) ?? null
+    },
+    getMany,
+    async findIds(ids, { search, difficulty }) {
+      const pattern = search?.trim() ? `%${search.trim()}%` : undefined
+      // Blink cannot send OR groups, so title and topic matches are separate queries
+      const searches: Where[] = pattern ? [{ title: { ilike: pattern } }, { topic: { ilike: pattern } }] : [{}]
+      const batches = chunk([...new Set(ids)], QUIZ_BATCH_SIZE)
+      const rows = await Promise.all(batches.flatMap(batch => searches.map(match => table.list({
+        where: { id: { in: batch }, ...(difficulty && { difficulty }), ...match },
+        select: ['id']
+      }))))
+      return [...new Set(rows.flat().map(row => toText(row.id)))]
+    },
+    async listByUser(userId) {
+      const rows = await table.list({ where: { userId }, orderBy: { createdAt: 'desc' } })
+      return rows.map(row => remember(toQuiz(row)))
+    },
+    async listTranslations(originalId) {
+      // Blink cannot send OR groups, so the original and its translations are separate queries
+      const [original, translations] = await Promise.all([
+        getMany([originalId]),
+        table.list({ where: { translationOf: originalId }, orderBy: { createdAt: 'asc' } })
+      ])
+      return [...original.values(), ...translations.map(row => remember(toQuiz(row)))]
+        .sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)))
+    },
+    async create(quiz) {
+      return remember(toQuiz(await table.create(fromQuiz({ ...quiz, ...timestamps(quiz) }))))
+    },
+    async update(id, changes) {
+      // Drop the cached copy first so a failed write cannot leave it stale
+      cache.delete(id)
+      return remember(toQuiz(await table.update(id, fromQuiz({ updatedAt: new Date().toISOString(), ...changes }))))
+    },
+    async delete(id) {
+      cache.delete(id)
+      await table.delete(id)
+    }
+  }
+}
+
+// The fields needed for history-wide stats, without the (large) answers
+export type AttemptSummary = Pick<QuizAttempt, 'id' | 'quizId' | 'score' | 'timeSpent' | 'status' | 'mode' | 'parentAttemptId' | 'completedAt'>
+
+export interface AttemptPageQuery {
+  // Only attempts of these quizzes, when given
+  quizIds?: string[]
+  completedAfter?: string
+  sortBy: 'date' | 'score'
+  page: number
+  pageSize: number
+}
+
+const SUMMARY_FIELDS = ['id', 'quizId', 'score', 'timeSpent', 'status', 'mode', 'parentAttemptId', 'completedAt']
+const SUMMARY_PAGE_SIZE = 500
+
+// Attempts saved before resuming existed have no status and are completed.
+// Blink cannot send `status = x OR status IS NULL`, so each is a separate query
+const COMPLETED_STATUSES: Where[] = [{ status: 'completed' }, { status: { is: null } }]
+
+const newestFirst = (a: Pick<QuizAttempt, 'completedAt'>, b: Pick<QuizAttempt, 'completedAt'>) =>
+  String(b.completedAt).localeCompare(String(a.completedAt))
+
+export interface AttemptRepository {
+  get(id: string): Promise<QuizAttempt | null>
+  // Newest first
+  listByUser(userId: string, options?: { limit?: number }): Promise<QuizAttempt[]>
+  // Every completed attempt of the user, newest first
+  listSummaries(userId: string): Promise<AttemptSummary[]>
+  // Completed attempts with their answers, newest first, optionally only those completed after a time
+  listCompleted(userId: string, options?: { completedAfter?: string }): Promise<QuizAttempt[]>
+  // One page of completed attempts plus how many match in total
+  listPage(userId: string, query: AttemptPageQuery): Promise<{ attempts: QuizAttempt[]; total: number }>
+  listByQuiz(quizId: string): Promise<QuizAttempt[]>
+  findInProgress(userId: string, quizId: string): Promise<QuizAttempt | null>
+  create(attempt: NewAttempt): Promise<QuizAttempt>
+  update(id: string, changes: Partial<QuizAttempt>): Promise<QuizAttempt>
+  delete(id: string): Promise<void>
+}
+
+export function createAttemptRepository(backend: DataBackend): AttemptRepository {
+  const table = backend.quizAttempts
+
+  return {
+    async get(id) {
+      const rows = await table.list({ where: { id }, limit: 1 })
+      return rows.length > 0 ? toAttempt(rows[0]) : null
+    },
+    async listByUser(userId, options = {}) {
+      const rows = await table.list({ where: { userId }, orderBy: { completedAt: 'desc' }, limit: options.limit })
+      return rows.map(toAttempt)
+    },
+    async listSummaries(userId) {
+      const lists = await Promise.all(COMPLETED_STATUSES.map(async status => {
+        const summaries: AttemptSummary[] = []
+        for (let offset = 0; ; offset += SUMMARY_PAGE_SIZE) {
+          const rows = await table.list({
+            where: { userId, ...status },
+            orderBy: { completedAt: 'desc' },
+            select: SUMMARY_FIELDS,
+            limit: SUMMARY_PAGE_SIZE,
+            offset
+          })
+          summaries.push(...rows.map(toAttempt))
+          if (rows.length < SUMMARY_PAGE_SIZE) return summaries
+        }
+      }))
+      return lists.flat().sort(newestFirst)
+    },
+    async listCompleted(userId, { completedAfter } = {}) {
+      const lists = await Promise.all(COMPLETED_STATUSES.map(status => table.list({
+        where: { userId, ...status, ...(completedAfter && { completedAt: { gt: completedAfter } }) },
+        orderBy: { completedAt: 'desc' }
+      })))
+      return lists.flat().map(toAttempt).sort(newestFirst)
+    },
+    async listPage(userId, { quizIds, completedAfter, sortBy, page, pageSize }) {
+      if (quizIds && quizIds.length === 0) return { attempts: [], total: 0 }
+
+      // Quiz ids go into the query string, so long lists are queried in batches
+      const quizBatches = quizIds ? chunk(quizIds, QUIZ_BATCH_SIZE) : [undefined]
+      const queries: Where[] = quizBatches.flatMap(batch => COMPLETED_STATUSES.map(status => ({
+        userId,
+        ...status,
+        ...(batch && { quizId: { in: batch } }),
+        ...(completedAfter && { completedAt: { gte: completedAfter } })
+      })))
+      const orderBy: Record<string, 'asc' | 'desc'> = sortBy === 'score' ? { score: 'desc' } : { completedAt: 'desc' }
+      const start = (page - 1) * pageSize
+
+      // Queries without matches are skipped, so the usual case of a single
+      // one (no legacy attempts, few quizzes) is paged by the backend
+      const counts = await Promise.all(queries.map(where => table.count({ where })))
+      const total = counts.reduce((sum, count) => sum + count, 0)
+      const wheres = queries.filter((_, index) => counts[index] > 0)
+
+      if (wheres.length <= 1) {
+        const rows = wheres.length === 1 ? await table.list({ where: wheres[0], orderBy, limit: pageSize, offset: start }) : []
+        return { attempts: rows.map(toAttempt), total }
+      }
+
+      // Every query is sorted by the backend; the page is cut from their merged leading rows
+      const batches = await Promise.all(wheres.map(where => table.list({ where, orderBy, limit: start + pageSize })))
+      const attempts = batches.flat().map(toAttempt).sort((a, b) =>
+        sortBy === 'score' ? b.score - a.score : newestFirst(a, b)
+      )
+      return { attempts: attempts.slice(start, start + pageSize), total }
+    },
+    async listByQuiz(quizId) {
+      const rows = await table.list({ where: { quizId } })
+      return rows.map(toAttempt)
+    },
+    async findInProgress(userId, quizId) {
+      const rows = await table.list({
+        where: { quizId, userId, status: 'in_progress' },
+        orderBy: { updatedAt: 'desc' },
+        limit: 1
+      })
+      return rows.length > 0 ? toAttempt(rows[0]) : null
+    },
+    async create(attempt) {
+      return toAttempt(await table.create(fromAttempt({ ...attempt, ...timestamps(attempt) })))
+    },
+    async update(id, changes) {
+      return toAttempt(await table.update(id, fromAttempt({ updatedAt: new Date().toISOString(), ...changes })))
+    },
+    async delete(id) {
+      await table.delete(id)
+    }
+  }
+}
+
+export interface ReviewCardRepository {
+  listByUser(userId: string, quizId?: string): Promise<ReviewCard[]>
+  createMany(cards: ReviewCard[]): Promise<void>
+  update(id: string, changes: Partial<ReviewCard>): Promise<void>
+  countDue(userId: string, now?: Date): Promise<number>
+  delete(id: string): Promise<void>
+  // Every card of the quiz, or only those of `questionIds`
+  deleteByQuiz(quizId: string, questionIds?: string[]): Promise<void>
+}
+
+export function createReviewCardRepository(backend: DataBackend): ReviewCardRepository {
+  const table = backend.reviewCards
+
+  return {
+    async listByUser(userId, quizId) {
+      const rows = await table.list({ where: quizId ? { userId, quizId } : { userId } })
+      return rows.map(toReviewCard)
+    },
+    async createMany(cards) {
+      if (cards.length > 0) await table.createMany(cards.map(card => ({ ...card })))
+    },
+    async update(id, changes) {
+      await table.update(id, { updatedAt: new Date().toISOString(), ...changes })
+    },
+    async countDue(userId, now = new Date()) {
+      return table.count({ where: { userId, dueAt: { lte: now.toISOString() } } })
+    },
+    async delete(id) {
+      await table.delete(id)
+    },
+    async deleteByQuiz(quizId, questionIds) {
+      if (questionIds && questionIds.length === 0) return
+      const rows = await table.list({
+        where: questionIds ? { quizId, questionId: { in: questionIds } } : { quizId },
+        select: ['id']
+      })
+      await Promise.all(rows.map(row => table.delete(toText(row.id))))
+    }
+  }
+}
+
+// Library listings leave out the extracted text, which can run to megabytes
+export type LibraryDocumentSummary = Omit<LibraryDocument, 'text'>
+
+const LIBRARY_SUMMARY_FIELDS = ['id', 'userId', 'title', 'fileName', 'size', 'pageCount', 'createdAt', 'updatedAt']
+
+export interface LibraryDocumentRepository {
+  get(id: string): Promise<LibraryDocument | null>
+  listByUser(userId: string): Promise<LibraryDocumentSummary[]>
+  create(document: NewLibraryDocument): Promise<LibraryDocument>
+  update(id: string, changes: Partial<LibraryDocument>): Promise<LibraryDocument>
+  delete(id: string): Promise<void>
+}
+
+export function createLibraryDocumentRepository(backend: DataBackend): LibraryDocumentRepository {
+  const table = backend.libraryDocuments
+
+  return {
+    async get(id) {
+      const rows = await table.list({ where: { id }, limit: 1 })
+      return rows.length > 0 ? toLibraryDocument(rows[0]) : null
+    },
+    async listByUser(userId) {
+      const rows = await table.list({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' },
+        select: LIBRARY_SUMMARY_FIELDS
+      })
+      return rows.map(row => {
+        const { text: _text, ...summary } = toLibraryDocument(row)
+        return summary
+      })
+    },
+    async create(document) {
+      return toLibraryDocument(await table.create({ ...document, ...timestamps(document) }))
+    },
+    async update(id, changes) {
+      return toLibraryDocument(await table.update(id, { updatedAt: new Date().toISOString(), ...changes }))
+    },
+    async delete(id) {
+      await table.delete(id)
+    }
+  }
+}
+
+export interface GenerationPresetRepository {
+  listByUser(userId: string): Promise<GenerationPreset[]>
+  create(preset: NewGenerationPreset): Promise<GenerationPreset>
+  update(id: string, changes: Partial<GenerationPreset>): Promise<GenerationPreset>
+  delete(id: string): Promise<void>
+  // Makes `id` the user's only default preset, or clears the default when null
+  setDefault(userId: string, id: string | null): Promise<void>
+}
+
+export function createGenerationPresetRepository(backend: DataBackend): GenerationPresetRepository {
+  const table = backend.generationPresets
+
+  return {
+    async listByUser(userId) {
+      const rows = await table.list({ where: { userId }, orderBy: { name: 'asc' } })
+      return rows.map(toGenerationPreset)
+    },
+    async create(preset) {
+      return toGenerationPreset(await table.create(fromGenerationPreset({ ...preset, ...timestamps(preset) })))
+    },
+    async update(id, changes) {
+      return toGenerationPreset(await table.update(id, fromGenerationPreset({ updatedAt: new Date().toISOString(), ...changes })))
+    },
+    async delete(id) {
+      await table.delete(id)
+    },
+    async setDefault(userId, id) {
+      const rows = await table.list({ where: { userId } })
+      await Promise.all(rows
+        .filter(row => toBoolean(row.isDefault) !== (row.id === id))
+        .map(row => table.update(toText(row.id), { isDefault: row.id === id, updatedAt: new Date().toISOString() })))
+    }
+  }
+}
+
+export interface PromptTemplateRepository {
+  listByUser(userId: string): Promise<PromptTemplate[]>
+  create(template: NewPromptTemplate): Promise<PromptTemplate>
+  update(id: string, changes: Partial<PromptTemplate>): Promise<PromptTemplate>
+  delete(id: string): Promise<void>
+}
+
+export function createPromptTemplateRepository(backend: DataBackend): PromptTemplateRepository {
+  const table = backend.promptTemplates
+
+  return {
+    async listByUser(userId) {
+      const rows = await table.list({ where: { userId }, orderBy: { name: 'asc' } })
+      return rows.map(toPromptTemplate)
+    },
+    async create(template) {
+      return toPromptTemplate(await table.create({ ...template, ...timestamps(template) }))
+    },
+    async update(id, changes) {
+      return toPromptTemplate(await table.update(id, { updatedAt: new Date().toISOString(), ...changes }))
+    },
+    async delete(id) {
+      await table.delete(id)
+    }
+  }
+}
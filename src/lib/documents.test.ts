@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { allocateQuestions, findPassage, locateExcerpt, splitDocument, type DocumentChunk } from './documents'
+
+const chunksOf = (...lengths: number[]): DocumentChunk[] =>
+  lengths.map((length, index) => ({ index, headings: [`Part ${index + 1}`], text: 'x'.repeat(length) }))
+
+// The document text of the chunks, without the heading lines they start with
+const bodyWords = (chunks: DocumentChunk[]) =>
+  chunks.flatMap(chunk => chunk.text.split('\n').filter(line => !line.startsWith('## ')).join(' ').split(/\s+/).filter(Boolean))
+
+describe('splitDocument', () => {
+  it('recognises headings and keeps short sections in one chunk', () => {
+    const text = '# Introduction\n\nCells are small.\nThey divide.\n\nCHAPTER 2 Energy\n\nMitochondria make ATP.\n\n3. Photosynthesis in plants\n\nLight is captured.'
+
+    expect(splitDocument(text)).toEqual([{
+      index: 0,
+      headings: ['Introduction', 'CHAPTER 2 Energy', '3. Photosynthesis in plants'],
+      text: '## Introduction\n\nCells are small.\nThey divide.\n\n## CHAPTER 2 Energy\n\nMitochondria make ATP.\n\n## 3. Photosynthesis in plants\n\nLight is captured.'
+    }])
+  })
+
+  it('splits long sections at paragraphs and labels the parts', () => {
+    const paragraphs = Array.from({ length: 12 }, (_, index) => `Paragraph ${index} explains one more idea in some detail.`)
+    const text = `# Biology\n\n${paragraphs.join('\n\n')}\n\n# Chemistry\n\nAtoms bond.`
+
+    const chunks = splitDocument(text, 200)
+
+    expect(chunks.every(chunk => chunk.text.length <= 200)).toBe(true)
+    expect(chunks[0].headings).toEqual(['Biology (part 1)'])
+    expect(chunks[chunks.length - 1].headings).toContain('Chemistry')
+    // Paragraphs are never cut in half when they fit
+    paragraphs.forEach(paragraph => expect(chunks.some(chunk => chunk.text.includes(paragraph))).toBe(true))
+  })
+
+  it('splits one huge paragraph at sentence ends without losing text', () => {
+    const text = Array.from({ length: 40 }, (_, index) => `Sentence ${index} is about topic ${index}.`).join(' ')
+
+    const chunks = splitDocument(text, 300)
+
+    expect(chunks.length).toBeGreaterThan(4)
+    expect(chunks.every(chunk => chunk.text.length <= 300)).toBe(true)
+    expect(chunks[0].headings[0]).toBe('Sentence 0 is about topic 0. Sentence 1… (part 1)')
+    expect(bodyWords(chunks)).toEqual(text.split(' '))
+  })
+
+  it('cuts text without sentence ends or spaces into pieces', () => {
+    const chunks = splitDocument('x'.repeat(700), 300)
+
+    expect(chunks.every(chunk => chunk.text.length <= 300)).toBe(true)
+    expect(bodyWords(chunks).join('')).toBe('x'.repeat(700))
+  })
+})
+
+describe('allocateQuestions', () => {
+  it('hands out every question when the count does not divide evenly', () => {
+    expect(allocateQuestions(chunksOf(100, 100, 100), 10)).toEqual([3, 4, 3])
+    expect(allocateQuestions(chunksOf(500, 100, 100, 300), 7)).toEqual([4, 0, 1, 2])
+  })
+
+  it('covers the end of the document in proportion to its length', () => {
+    const allocation = allocateQuestions(chunksOf(...Array(8).fill(1000)), 16)
+
+    expect(allocation).toEqual(Array(8).fill(2))
+  })
+
+  it('spaces questions through the document when there are more chunks than questions', () => {
+    expect(allocateQuestions(chunksOf(100, 100, 100, 100, 100), 2)).toEqual([0, 1, 0, 1, 0])
+  })
+
+  it('allocates nothing to an empty document', () => {
+    expect(allocateQuestions(chunksOf(0, 0), 5)).toEqual([0, 0])
+    expect(allocateQuestions([], 5)).toEqual([])
+  })
+})
+
+describe('locateExcerpt', () => {
+  it('finds the excerpt despite different whitespace and trailing dots', () => {
+    expect(locateExcerpt('Plants need light.\nThe   green\npigment absorbs it.', 'the green pigment absorbs…')).toEqual({ offset: 19 })
+  })
+
+  it('returns the page when page breaks are marked', () => {
+    expect(locateExcerpt('Page one\fPage two has\n  the answer here', 'the answer here...')).toEqual({ offset: 24, page: 2 })
+  })
+
+  it('returns nothing for excerpts that are not in the text', () => {
+    expect(locateExcerpt('Plants need light.', 'Animals need food')).toEqual({})
+    expect(locateExcerpt('Plants need light.', '  ')).toEqual({})
+  })
+})
+
+describe('findPassage', () => {
+  const text = 'Light matters. The green\npigment absorbs light. Later, the green pigment absorbs light again.'
+
+  it('uses the stored offset when the passage is still there', () => {
+    expect(findPassage(text, 'the green pigment absorbs light', 55)).toEqual({ start: 55, end: 86 })
+    expect(text.slice(55, 86)).toBe('the green pigment absorbs light')
+  })
+
+  it('searches the text when the offset no longer matches', () => {
+    expect(findPassage(text, 'the green pigment absorbs light…', 3)).toEqual({ start: 15, end: 46 })
+    expect(findPassage(text, 'the green pigment absorbs light')).toEqual({ start: 15, end: 46 })
+    expect(findPassage(text, 'red pigment', 0)).toBeNull()
+  })
+})
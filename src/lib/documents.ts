@@ -0,0 +1,205 @@
+/**
+ * A slice of a long document small enough for a single generation request.
+ * `headings` lists every section that ended up in the chunk, in order.
+ */
+export interface DocumentChunk {
+  index: number
+  headings: string[]
+  text: string
+}
+
+interface Section {
+  heading: string
+  paragraphs: string[]
+}
+
+// Comfortably below the 50,000 characters a single prompt used to be cut at
+export const MAX_CHUNK_CHARS = 12000
+
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+)$/
+const NAMED_HEADING = /^(chapter|section|part|unit|lesson|module)\s+[\dIVXLC]+\b.{0,80}$/i
+const NUMBERED_HEADING = /^\d+(\.\d+)*\.?\s+[A-Z][^.!?]{0,80}$/
+const CAPS_HEADING = /^(?=.*[A-Z]{2})[A-Z0-9][A-Z0-9 ,:&'()-]{2,80}$/
+
+function headingText(line: string): string | null {
+  const trimmed = line.trim()
+  if (!trimmed || trimmed.length > 100) return null
+
+  const markdown = trimmed.match(MARKDOWN_HEADING)
+  if (markdown) return markdown[1].replace(/[#*_]+/g, '').trim()
+  if (NAMED_HEADING.test(trimmed) || NUMBERED_HEADING.test(trimmed) || CAPS_HEADING.test(trimmed)) {
+    return trimmed.replace(/[:.]$/, '')
+  }
+  return null
+}
+
+const MAX_SNIPPET_CHARS = 60
+
+// Untitled stretches of text are labelled by their opening words
+function snippet(text: string): string {
+  const words = text.trim().split(/\s+/).slice(0, 8).join(' ').slice(0, MAX_SNIPPET_CHARS)
+  return words.length < text.trim().length ? `${words}…` : words
+}
+
+function splitSections(content: string): Section[] {
+  const sections: Section[] = []
+  let current: Section = { heading: '', paragraphs: [] }
+  let paragraph: string[] = []
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) current.paragraphs.push(paragraph.join('\n'))
+    paragraph = []
+  }
+
+  content.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const heading = headingText(line)
+    if (heading) {
+      flushParagraph()
+      if (current.heading || current.paragraphs.length > 0) sections.push(current)
+      current = { heading, paragraphs: [] }
+    } else if (!line.trim()) {
+      flushParagraph()
+    } else {
+      paragraph.push(line.trim())
+    }
+  })
+  flushParagraph()
+  if (current.heading || current.paragraphs.length > 0) sections.push(current)
+
+  return sections
+    .filter(section => section.paragraphs.length > 0)
+    .map(section => ({ ...section, heading: section.heading || snippet(section.paragraphs[0]) }))
+}
+
+// Breaks an oversized paragraph at sentence ends, falling back to a hard cut
+function splitParagraph(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) return [paragraph]
+
+  const pieces: string[] = []
+  let piece = ''
+  paragraph.split(/(?<=[.!?])\s+/).forEach(sentence => {
+    if (piece && piece.length + sentence.length + 1 > maxChars) {
+      pieces.push(piece)
+      piece = ''
+    }
+    piece = piece ? `${piece} ${sentence}` : sentence
+    while (piece.length > maxChars) {
+      pieces.push(piece.slice(0, maxChars))
+      piece = piece.slice(maxChars)
+    }
+  })
+  if (piece) pieces.push(piece)
+  return pieces
+}
+
+/**
+ * Splits a document into chunks along its headings and paragraphs. Short
+ * neighbouring sections share a chunk; long ones are split at paragraph
+ * boundaries and labelled "(part n)".
+ */
+export function splitDocument(content: string, maxChars: number = MAX_CHUNK_CHARS): DocumentChunk[] {
+  const pieces: { heading: string; text: string }[] = []
+
+  splitSections(content).forEach(section => {
+    const text = section.paragraphs.join('\n\n')
+    // Leave room for the "## heading (part n)" line each chunk starts with,
+    // but never so much that a long heading leaves no room for the text
+    const budget = Math.max(maxChars - section.heading.length - 20, Math.ceil(maxChars / 2))
+    if (text.length <= budget) {
+      pieces.push({ heading: section.heading, text })
+      return
+    }
+
+    const parts: string[] = []
+    let part = ''
+    section.paragraphs.flatMap(paragraph => splitParagraph(paragraph, budget)).forEach(paragraph => {
+      if (part && part.length + paragraph.length + 2 > budget) {
+        parts.push(part)
+        part = ''
+      }
+      part = part ? `${part}\n\n${paragraph}` : paragraph
+    })
+    if (part) parts.push(part)
+
+    parts.forEach((text, index) => pieces.push({ heading: `${section.heading} (part ${index + 1})`, text }))
+  })
+
+  const chunks: DocumentChunk[] = []
+  pieces.forEach(piece => {
+    const last = chunks[chunks.length - 1]
+    const block = `## ${piece.heading}\n\n${piece.text}`
+    if (last && last.text.length + block.length + 2 <= maxChars) {
+      last.headings.push(piece.heading)
+      last.text = `${last.text}\n\n${block}`
+    } else {
+      chunks.push({ index: chunks.length, headings: [piece.heading], text: block })
+    }
+  })
+  return chunks
+}
+
+/**
+ * Spreads `total` questions over the chunks in proportion to their length.
+ * Allocation follows the running share of the document, so when there are
+ * more chunks than questions the questions are spaced evenly through it.
+ */
+export function allocateQuestions(chunks: DocumentChunk[], total: number): number[] {
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0)
+  if (totalLength === 0) return chunks.map(() => 0)
+
+  let covered = 0
+  let allocated = 0
+  return chunks.map(chunk => {
+    covered += chunk.text.length
+    const target = Math.round((covered / totalLength) * total)
+    const count = target - allocated
+    allocated = target
+    return count
+  })
+}
+
+export function chunkTitle(chunk: DocumentChunk): string {
+  return chunk.headings.length > 2
+    ? `${chunk.headings[0]} – ${chunk.headings[chunk.headings.length - 1]}`
+    : chunk.headings.join(', ')
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Matches an excerpt whatever whitespace and line breaks sit between its words
+function excerptPattern(excerpt: string, flags: string): RegExp | null {
+  const words = excerpt.trim().replace(/[.…]+$/, '').split(/\s+/).filter(Boolean)
+  return words.length > 0 ? new RegExp(words.map(escapeRegExp).join('\\s+'), flags) : null
+}
+
+/**
+ * Finds where an excerpt quoted by the model sits in the original text,
+ * ignoring differences in whitespace and line breaks. When the extracted
+ * text marks page breaks with form feeds, the page number is returned too.
+ */
+export function locateExcerpt(content: string, excerpt: string): { offset?: number; page?: number } {
+  const match = excerptPattern(excerpt, 'i')?.exec(content)
+  if (!match) return {}
+
+  const offset = match.index
+  if (!content.includes('\f')) return { offset }
+  return { offset, page: content.slice(0, offset).split('\f').length }
+}
+
+/**
+ * The span of a cited passage in `content`, checked at the stored `offset`
+ * first and searched for when the text has been edited since.
+ */
+export function findPassage(content: string, excerpt: string, offset?: number): { start: number; end: number } | null {
+  const pattern = excerptPattern(excerpt, 'iy')
+  if (!pattern) return null
+
+  if (offset !== undefined) {
+    pattern.lastIndex = offset
+    const match = pattern.exec(content)
+    if (match) return { start: match.index, end: match.index + match[0].length }
+  }
+
+  const match = new RegExp(pattern.source, 'i').exec(content)
+  return match ? { start: match.index, end: match.index + match[0].length } : null
+}
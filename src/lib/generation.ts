@@ -0,0 +1,503 @@
+import { blink } from '@/blink/client'
+import { allocateQuestions, chunkTitle, locateExcerpt, splitDocument } from '@/lib/documents'
+import { COGNITIVE_LEVELS, createQuestionId, normalizeQuestion, QUESTION_TYPE_LABELS } from '@/lib/questions'
+import { AUDIENCE_LABELS, languageName } from '@/lib/presets'
+import { checkQuestions } from '@/lib/quizSchema'
+import type { AudienceLevel, LevelMix, Question, QuestionType, QuizTone } from '@/types'
+
+const LEVEL_INSTRUCTIONS = 'Set level to the cognitive level the question tests: "recall" (remember facts), "understand" (explain ideas), "apply" (use knowledge in a new situation) or "analyze" (compare, infer or break down).'
+
+const TYPE_INSTRUCTIONS: Record<QuestionType, string> = {
+  multiple_choice: '"multiple_choice": exactly 4 options and the correct option index (0-3) in correctAnswer',
+  true_false: '"true_false": a statement to judge, with correctAnswer set to true or false',
+  multi_select: '"multi_select": 4 to 6 options and every correct option index in correctAnswers (at least two)',
+  fill_blank: '"fill_blank": a sentence with "___" marking the blank and the accepted answers in acceptedAnswers',
+  numeric: '"numeric": a question with a numeric answer in correctAnswer, an allowed tolerance and an optional unit',
+  short_answer: '"short_answer": an open question answered in a few words, with the key phrases that must appear in acceptedAnswers'
+}
+
+/**
+ * Prompt lines telling the model which question types to produce and which
+ * fields each of them uses.
+ */
+export function questionTypeInstructions(types: QuestionType[]): string {
+  const lines = types.map(type => `- ${TYPE_INSTRUCTIONS[type]}`).join('\n')
+  const mix = types.length > 1
+    ? `Mix these question types (${types.map(type => QUESTION_TYPE_LABELS[type]).join(', ')}):`
+    : 'Use this question type:'
+  return `${mix}\n${lines}\nEvery question needs a brief explanation of why the answer is correct.
+${LEVEL_INSTRUCTIONS}`
+}
+
+export interface PromptStyle {
+  tone?: QuizTone
+  audience?: AudienceLevel
+  instructions?: string
+  // Language code; English when left out
+  language?: string
+  // Body of a prompt template, used instead of the default request line
+  template?: string
+}
+
+/**
+ * Fills the {{placeholder}} slots of a prompt template. Unknown placeholders
+ * become empty rather than reaching the model verbatim.
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => String(values[name] ?? '')).trim()
+}
+
+const templateValues = (style: PromptStyle, values: { topic: string; description?: string; difficulty: string; count: number }) => ({
+  ...values,
+  description: values.description ?? '',
+  audience: AUDIENCE_LABELS[style.audience ?? 'general'].toLowerCase(),
+  tone: style.tone ?? 'neutral',
+  language: languageName(style.language)
+})
+
+const languageInstruction = (language?: string) =>
+  language && language !== 'en'
+    ? `Write the title, questions, options, answers and explanations in ${languageName(language)}, whatever language the request is in.`
+    : ''
+
+// Prompt lines for the language, audience, tone and custom instructions; empty when all are left at their defaults
+function styleInstructions(style: PromptStyle): string {
+  return [
+    languageInstruction(style.language),
+    style.audience && style.audience !== 'general' ? `Pitch the questions at ${AUDIENCE_LABELS[style.audience].toLowerCase()} level.` : '',
+    style.tone && style.tone !== 'neutral' ? `Write in a ${style.tone} tone.` : '',
+    style.instructions?.trim() ? `Additional instructions: ${style.instructions.trim()}` : ''
+  ].filter(Boolean).map(line => `${line}\n`).join('')
+}
+
+export interface LearningTargets {
+  objectives?: string[]
+  levelMix?: LevelMix
+}
+
+// "4 recall, 3 understand, ..." for `count` questions, allocated by running share of the weights
+function levelCounts(mix: LevelMix, count: number): string {
+  const total = COGNITIVE_LEVELS.reduce((sum, level) => sum + Math.max(0, mix[level] || 0), 0)
+  if (total === 0) return ''
+
+  let covered = 0
+  let allocated = 0
+  return COGNITIVE_LEVELS.map(level => {
+    covered += Math.max(0, mix[level] || 0)
+    const target = Math.round((covered / total) * count)
+    const levelCount = target - allocated
+    allocated = target
+    return levelCount > 0 ? `${levelCount} ${level}` : ''
+  }).filter(Boolean).join(', ')
+}
+
+const listedObjectives = (targets: LearningTargets) =>
+  (targets.objectives ?? []).map(objective => objective.trim()).filter(Boolean)
+
+function targetInstructions(targets: LearningTargets, count: number): string {
+  const levels = targets.levelMix ? levelCounts(targets.levelMix, count) : ''
+  const objectives = listedObjectives(targets)
+  return [
+    levels ? `Spread the questions over the cognitive levels like this: ${levels}.` : '',
+    objectives.length > 0
+      ? `Where the material allows, each question should assess one of these learning objectives, copied word for word into objective, covering as many of them as possible:\n${objectives.map(objective => `- ${objective}`).join('\n')}`
+      : ''
+  ].filter(Boolean).map(line => `${line}\n`).join('')
+}
+
+// Objectives the model reworded slightly are mapped back to the author's wording so results group together
+function matchObjectives(questions: Question[], targets: LearningTargets): Question[] {
+  const objectives = listedObjectives(targets)
+  if (objectives.length === 0) return questions
+
+  const canonical = (objective: string) => objective.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+  return questions.map(question => {
+    if (!question.objective) return question
+    const match = objectives.find(objective => canonical(objective) === canonical(question.objective!))
+    return match ? { ...question, objective: match } : question
+  })
+}
+
+const SOURCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    excerpt: { type: 'string' },
+    section: { type: 'string' }
+  },
+  required: ['excerpt']
+}
+
+const SOURCE_INSTRUCTIONS = 'For every question, copy into source.excerpt the exact sentence or two from the content that supports the answer, word for word, and put the heading of the section it comes from in source.section.'
+
+export function questionItemSchema(types: QuestionType[], withSource: boolean = false) {
+  return {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: types },
+      question: { type: 'string' },
+      options: { type: 'array', items: { type: 'string' } },
+      correctAnswer: { type: ['number', 'boolean'] },
+      correctAnswers: { type: 'array', items: { type: 'number' } },
+      acceptedAnswers: { type: 'array', items: { type: 'string' } },
+      tolerance: { type: 'number' },
+      unit: { type: 'string' },
+      explanation: { type: 'string' },
+      objective: { type: 'string' },
+      level: { type: 'string', enum: COGNITIVE_LEVELS },
+      ...(withSource ? { source: SOURCE_SCHEMA } : {})
+    },
+    required: withSource ? ['type', 'question', 'explanation', 'source'] : ['type', 'question', 'explanation']
+  }
+}
+
+export function quizSchema(types: QuestionType[], withSource: boolean = false) {
+  return {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      questions: {
+        type: 'array',
+        items: questionItemSchema(types, withSource)
+      }
+    },
+    required: ['title', 'questions']
+  }
+}
+
+export function toQuestions(rawQuestions: any[]): Question[] {
+  return rawQuestions.map((raw, index) => normalizeQuestion({ ...raw, id: undefined }, index))
+}
+
+export interface QuizContext {
+  title: string
+  topic?: string
+  description?: string
+  difficulty: 'easy' | 'medium' | 'hard'
+  language?: string
+}
+
+const describeQuiz = (quiz: QuizContext) =>
+  `Quiz: "${quiz.title}"${quiz.topic ? `\nTopic: ${quiz.topic}` : ''}${quiz.description ? `\nDescription: ${quiz.description}` : ''}\nDifficulty: ${quiz.difficulty}${quiz.language && quiz.language !== 'en' ? `\nLanguage: ${languageName(quiz.language)}\n${languageInstruction(quiz.language)}` : ''}`
+
+const listQuestions = (questions: Question[]) =>
+  questions.map((question, index) => `${index + 1}. ${question.question}`).join('\n')
+
+async function requestRawQuestions(prompt: string, types: QuestionType[], withSource: boolean, signal?: AbortSignal): Promise<any[]> {
+  const { object } = await blink.ai.generateObject({
+    prompt,
+    schema: {
+      type: 'object',
+      properties: {
+        questions: { type: 'array', items: questionItemSchema(types, withSource) }
+      },
+      required: ['questions']
+    },
+    signal
+  })
+  return object.questions || []
+}
+
+// Rounds of asking again for questions that failed validation
+const MAX_REPAIR_ROUNDS = 2
+
+interface RepairOptions {
+  types: QuestionType[]
+  withSource?: boolean
+  signal?: AbortSignal
+}
+
+/**
+ * Validates generated questions against the schema and re-requests only the
+ * invalid or missing ones, sending the original prompt with the problems
+ * found. Questions still invalid after MAX_REPAIR_ROUNDS are dropped.
+ */
+async function repairQuestions(rawQuestions: any[], wanted: number, prompt: string, options: RepairOptions): Promise<Question[]> {
+  const { types, withSource = false, signal } = options
+  let { valid, problems } = checkQuestions(rawQuestions)
+  valid = valid.slice(0, wanted)
+
+  for (let round = 0; round < MAX_REPAIR_ROUNDS && valid.length < wanted && !signal?.aborted; round++) {
+    const missing = wanted - valid.length
+    const rejected = problems.map(problem => `- "${problem.question}": ${problem.issues.join('; ')}`).join('\n')
+    console.warn(`Re-requesting ${missing} question(s) that failed validation`, problems)
+
+    try {
+      const replacements = await requestRawQuestions(`${prompt}
+
+Some of the questions written for the request above were rejected${rejected ? `:\n${rejected}` : ' or missing.'}
+Write ${missing} new question(s) instead, fixing these problems and not repeating any of the accepted questions:
+${listQuestions(valid)}`, types, withSource, signal)
+
+      const checked = checkQuestions(replacements)
+      valid = [...valid, ...checked.valid].slice(0, wanted)
+      problems = checked.problems
+    } catch (error) {
+      if (!signal?.aborted) console.error('Error re-requesting invalid questions:', error)
+      break
+    }
+  }
+
+  return valid
+}
+
+async function requestQuestions(prompt: string, types: QuestionType[], count: number): Promise<Question[]> {
+  const rawQuestions = await requestRawQuestions(prompt, types, false)
+  const questions = await repairQuestions(rawQuestions, count, prompt, { types })
+  // Fresh ids: attempt answers keyed by the replaced question must not carry over
+  return questions.map(question => ({ ...question, id: createQuestionId() }))
+}
+
+/**
+ * Asks for a replacement for one question, passing the rest of the quiz as
+ * context so the new question does not repeat any of them.
+ */
+export async function regenerateQuestion(quiz: QuizContext, questions: Question[], index: number): Promise<Question> {
+  const target = questions[index]
+  const others = questions.filter((_, i) => i !== index)
+
+  const [question] = await requestQuestions(`${describeQuiz(quiz)}
+
+Write 1 new question to replace this one: "${target.question}"
+The replacement must cover a different point than every question already in the quiz:
+${listQuestions(others)}
+${target.objective ? `\nIt should assess the same learning objective, copied into objective: "${target.objective}"` : ''}${target.level ? `\nIt should test at the same cognitive level: "${target.level}"` : ''}
+
+${questionTypeInstructions([target.type])}`, [target.type], 1)
+
+  if (!question) throw new Error('The AI did not return a question')
+  return question
+}
+
+/**
+ * Generates `count` extra questions in the style of the existing ones,
+ * using the same mix of question types.
+ */
+export async function generateMoreQuestions(quiz: QuizContext, questions: Question[], count: number): Promise<Question[]> {
+  const types = [...new Set(questions.map(question => question.type))]
+  const usedTypes = types.length > 0 ? types : (['multiple_choice'] as QuestionType[])
+
+  const generated = await requestQuestions(`${describeQuiz(quiz)}
+
+Write ${count} more questions like the existing ones below, matching their style and difficulty without duplicating any of them:
+${listQuestions(questions)}
+
+${questionTypeInstructions(usedTypes)}`, usedTypes, count)
+
+  return generated
+}
+
+export interface SectionCoverage {
+  title: string
+  planned: number
+  generated: number
+  status: 'pending' | 'generating' | 'done' | 'failed' | 'skipped'
+}
+
+export interface StreamOptions {
+  // Aborting stops generation; whatever was completed so far is still returned
+  signal?: AbortSignal
+  // Called with every question completed so far, each time another one arrives
+  onQuestions?: (questions: Question[]) => void
+}
+
+export interface GeneratedQuiz {
+  title: string
+  questions: Question[]
+  cancelled: boolean
+}
+
+export interface TopicQuizOptions extends StreamOptions {
+  topic: string
+  description?: string
+  difficulty: 'easy' | 'medium' | 'hard'
+  questionCount: number
+  questionTypes: QuestionType[]
+  style?: PromptStyle
+  targets?: LearningTargets
+}
+
+export interface DocumentQuizOptions extends StreamOptions {
+  difficulty: 'easy' | 'medium' | 'hard'
+  questionCount: number
+  questionTypes: QuestionType[]
+  style?: PromptStyle
+  targets?: LearningTargets
+  onProgress?: (sections: SectionCoverage[]) => void
+}
+
+export interface DocumentQuiz extends GeneratedQuiz {
+  sections: SectionCoverage[]
+}
+
+interface StreamedQuiz {
+  title: string
+  rawQuestions: any[]
+  cancelled: boolean
+}
+
+/**
+ * Streams a quiz object, reporting questions as soon as they are complete:
+ * while streaming, the last question in a partial object may still be cut
+ * off, so only the ones before it are passed to `onComplete`.
+ */
+async function streamQuiz(
+  prompt: string,
+  schema: object,
+  signal: AbortSignal | undefined,
+  onComplete: (rawQuestions: any[]) => void
+): Promise<StreamedQuiz> {
+  let latest: any = {}
+  let reported = 0
+
+  try {
+    const { object } = await blink.ai.streamObject({ prompt, schema, signal }, partial => {
+      latest = partial ?? latest
+      const complete = (latest.questions ?? []).slice(0, -1)
+      if (complete.length > reported) {
+        reported = complete.length
+        onComplete(complete)
+      }
+    })
+    latest = object ?? latest
+    onComplete(latest.questions ?? [])
+    return { title: latest.title ?? '', rawQuestions: latest.questions ?? [], cancelled: false }
+  } catch (error) {
+    if (!signal?.aborted) throw error
+    return { title: latest.title ?? '', rawQuestions: (latest.questions ?? []).slice(0, reported), cancelled: true }
+  }
+}
+
+export async function generateTopicQuiz(options: TopicQuizOptions): Promise<GeneratedQuiz> {
+  const { topic, description, difficulty, questionCount, questionTypes, style = {}, targets = {}, signal, onQuestions } = options
+
+  const request = style.template
+    ? `${renderPromptTemplate(style.template, templateValues(style, { topic, description, difficulty, count: questionCount }))}\nWrite exactly ${questionCount} questions.`
+    : `Generate a ${difficulty} difficulty quiz about "${topic}" with ${questionCount} questions. ${description ? `Additional context: ${description}` : ''}`
+
+  const prompt = `${request}
+
+Each question should be clear and well-written.
+${questionTypeInstructions(questionTypes)}
+${styleInstructions(style)}${targetInstructions(targets, questionCount)}
+Make sure questions are varied, educational, and appropriate for the difficulty level.`
+
+  const { title, rawQuestions, cancelled } = await streamQuiz(
+    prompt,
+    quizSchema(questionTypes),
+    signal,
+    complete => onQuestions?.(toQuestions(complete.slice(0, questionCount)))
+  )
+
+  // A cancelled quiz keeps the valid questions it has; a finished one gets the invalid ones replaced
+  const questions = cancelled
+    ? checkQuestions(rawQuestions.slice(0, questionCount)).valid
+    : await repairQuestions(rawQuestions, questionCount, prompt, { types: questionTypes, signal })
+
+  return { title: title || `${topic} Quiz`, questions: matchObjectives(toQuestions(questions), targets), cancelled }
+}
+
+const questionWords = (text: string) =>
+  new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(word => word.length > 2))
+
+// Two questions count as the same when they share most of their words
+function isDuplicateQuestion(a: string, b: string): boolean {
+  const wordsA = questionWords(a)
+  const wordsB = questionWords(b)
+  if (wordsA.size === 0 || wordsB.size === 0) return a.trim().toLowerCase() === b.trim().toLowerCase()
+
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length
+  return shared / (wordsA.size + wordsB.size - shared) >= 0.8
+}
+
+// The questions of `incoming` that do not repeat one already kept, up to `limit`
+const freshQuestions = (kept: any[], incoming: any[], limit: number) =>
+  incoming
+    .filter(raw => !kept.some(existing => isDuplicateQuestion(existing.question ?? '', raw.question ?? '')))
+    .slice(0, limit)
+
+/**
+ * Generates a quiz from a document of any length: the text is split into
+ * chunks along its sections, questions are allocated to the chunks by length
+ * and generated one chunk at a time, then merged without near-duplicates.
+ * A chunk that fails is reported in `sections` rather than failing the quiz.
+ */
+export async function generateQuizFromDocument(content: string, options: DocumentQuizOptions): Promise<DocumentQuiz> {
+  const { difficulty, questionCount, questionTypes, style = {}, targets = {}, onProgress, signal, onQuestions } = options
+  const chunks = splitDocument(content)
+  const allocation = allocateQuestions(chunks, questionCount)
+  const outline = chunks.map(chunk => `- ${chunkTitle(chunk)}`).join('\n')
+
+  const sections: SectionCoverage[] = chunks.map((chunk, index) => ({
+    title: chunkTitle(chunk),
+    planned: allocation[index],
+    generated: 0,
+    status: allocation[index] > 0 ? 'pending' : 'skipped'
+  }))
+  const report = (index: number, update: Partial<SectionCoverage>) => {
+    sections[index] = { ...sections[index], ...update }
+    onProgress?.([...sections])
+  }
+  onProgress?.([...sections])
+
+  let title = ''
+  let cancelled = false
+  const rawQuestions: any[] = []
+
+  for (const chunk of chunks) {
+    const planned = allocation[chunk.index]
+    if (planned === 0) continue
+    if (cancelled) {
+      report(chunk.index, { status: 'skipped' })
+      continue
+    }
+
+    report(chunk.index, { status: 'generating' })
+    try {
+      const prompt = `${chunks.length > 1
+          ? `The following is part ${chunk.index + 1} of ${chunks.length} of a longer document, whose sections are:\n${outline}\n\nPart ${chunk.index + 1} content:`
+          : 'Based on the following content:'}
+
+${chunk.text}
+
+${style.template
+  ? `${renderPromptTemplate(style.template, templateValues(style, { topic: chunkTitle(chunk), difficulty, count: planned }))}\nWrite exactly ${planned} questions about this ${chunks.length > 1 ? 'part' : 'content'}, and a title for a quiz covering the whole document.`
+  : `Generate ${planned} ${difficulty} difficulty quiz questions about this ${chunks.length > 1 ? 'part' : 'content'}, and a title for a quiz covering the whole document.`}
+Each question should test understanding of key concepts from the content, and its explanation should reference the source material.
+${questionTypeInstructions(questionTypes)}
+${styleInstructions(style)}${targetInstructions(targets, planned)}${SOURCE_INSTRUCTIONS}
+${rawQuestions.length > 0 ? `\nDo not repeat any of these questions from earlier parts:\n${listQuestions(toQuestions(rawQuestions))}\n` : ''}
+Make sure questions cover different parts of the content and test various levels of comprehension.`
+
+      const streamed = await streamQuiz(
+        prompt,
+        quizSchema(questionTypes, true),
+        signal,
+        complete => onQuestions?.(toQuestions([...rawQuestions, ...freshQuestions(rawQuestions, complete, planned)]))
+      )
+      const checked = streamed.cancelled
+        ? checkQuestions(streamed.rawQuestions).valid
+        : await repairQuestions(streamed.rawQuestions, planned, prompt, { types: questionTypes, withSource: true, signal })
+
+      const fresh = freshQuestions(rawQuestions, checked, planned)
+        .map((raw: any) => raw.source
+          ? { ...raw, source: { ...raw.source, section: raw.source.section || chunk.headings[0] } }
+          : raw)
+      rawQuestions.push(...fresh)
+      title = title || streamed.title
+      cancelled = streamed.cancelled || !!signal?.aborted
+      report(chunk.index, { status: cancelled && fresh.length === 0 ? 'skipped' : 'done', generated: fresh.length })
+    } catch (error) {
+      console.error(`Error generating questions for "${sections[chunk.index].title}":`, error)
+      report(chunk.index, { status: 'failed' })
+    }
+  }
+
+  if (rawQuestions.length === 0 && !cancelled) throw new Error('No questions could be generated from this document')
+
+  // Pin each excerpt to its place in the full text so learners can find the passage
+  const questions = matchObjectives(toQuestions(rawQuestions), targets).map(question => question.source
+    ? { ...question, source: { ...question.source, ...locateExcerpt(content, question.source.excerpt) } }
+    : question)
+
+  return { title: title || 'Document Quiz', questions, sections, cancelled }
+}
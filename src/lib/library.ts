@@ -0,0 +1,42 @@
+import { blink } from '@/blink/client'
+import { libraryDocumentRepository } from '@/lib/data'
+import type { LibraryDocument } from '@/types'
+
+// Rough length of a printed page, for text extracted without page breaks
+const CHARS_PER_PAGE = 3000
+
+/**
+ * Pages in extracted text: counted from form feeds when the extractor marks
+ * page breaks, otherwise estimated from the length.
+ */
+export function countPages(text: string): number {
+  if (text.includes('\f')) return text.split('\f').filter(page => page.trim()).length || 1
+  return Math.max(1, Math.ceil(text.length / CHARS_PER_PAGE))
+}
+
+export const titleFromFileName = (fileName: string) => fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim()
+
+export async function extractFileText(file: File): Promise<string> {
+  const extracted = await blink.data.extractFromBlob(file)
+  return Array.isArray(extracted) ? extracted.join('\n\n') : extracted
+}
+
+export async function saveToLibrary(userId: string, text: string, options: { title: string; fileName?: string }): Promise<LibraryDocument> {
+  return libraryDocumentRepository.create({
+    userId,
+    title: options.title,
+    fileName: options.fileName,
+    size: text.length,
+    pageCount: countPages(text),
+    text
+  })
+}
+
+// Keeps the size and page count in step with text the user has trimmed
+export async function updateLibraryText(id: string, text: string): Promise<LibraryDocument> {
+  return libraryDocumentRepository.update(id, { text, size: text.length, pageCount: countPages(text) })
+}
+
+export function formatCharacters(count: number): string {
+  return count >= 1000 ? `${(count / 1000).toFixed(count >= 10000 ? 0 : 1)}k characters` : `${count} characters`
+}
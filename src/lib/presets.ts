@@ -0,0 +1,75 @@
+import type { AudienceLevel, GenerationPreset, GenerationSettings, QuizTone } from '@/types'
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  difficulty: 'medium',
+  questionCount: 10,
+  questionTypes: ['multiple_choice'],
+  isTimed: true,
+  timeLimit: 30,
+  defaultMode: 'exam',
+  language: 'en',
+  tone: 'neutral',
+  audience: 'general',
+  instructions: '',
+  objectives: [],
+  levelMix: { recall: 0, understand: 0, apply: 0, analyze: 0 }
+}
+
+export const TONE_LABELS: Record<QuizTone, string> = {
+  neutral: 'Neutral',
+  friendly: 'Friendly',
+  formal: 'Formal',
+  playful: 'Playful'
+}
+
+// Languages quizzes can be generated in or translated to, by language code
+export const LANGUAGE_LABELS: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  pl: 'Polish',
+  sv: 'Swedish',
+  tr: 'Turkish',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  ar: 'Arabic',
+  hi: 'Hindi',
+  zh: 'Chinese (Simplified)',
+  ja: 'Japanese',
+  ko: 'Korean'
+}
+
+// Quizzes without a language predate multilingual generation and are English
+export const languageName = (code?: string) => LANGUAGE_LABELS[code || 'en'] ?? code ?? 'English'
+
+export const AUDIENCE_LABELS: Record<AudienceLevel, string> = {
+  general: 'General',
+  primary: 'Primary school',
+  secondary: 'Secondary school',
+  university: 'University',
+  professional: 'Professional'
+}
+
+// Placeholders a prompt template can use, filled in by renderPromptTemplate
+export const TEMPLATE_PLACEHOLDERS = ['topic', 'description', 'difficulty', 'count', 'audience', 'tone', 'language']
+
+export function settingsOf(preset: GenerationPreset): GenerationSettings {
+  return {
+    difficulty: preset.difficulty,
+    questionCount: preset.questionCount,
+    questionTypes: preset.questionTypes.length > 0 ? preset.questionTypes : DEFAULT_GENERATION_SETTINGS.questionTypes,
+    isTimed: preset.isTimed,
+    timeLimit: preset.timeLimit,
+    defaultMode: preset.defaultMode,
+    language: preset.language,
+    tone: preset.tone,
+    audience: preset.audience,
+    instructions: preset.instructions,
+    objectives: preset.objectives,
+    levelMix: preset.levelMix
+  }
+}
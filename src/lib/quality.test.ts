@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Question } from '@/types'
+import { verifyAnswerKey } from './quality'
+
+const { generateObject } = vi.hoisted(() => ({ generateObject: vi.fn() }))
+vi.mock('@/blink/client', () => ({ blink: { ai: { generateObject } } }))
+
+const questions: Question[] = [
+  { id: 'q_1', type: 'fill_blank', question: 'The powerhouse of the cell is the ___.', acceptedAnswers: ['mitochondrion'], explanation: 'It makes ATP.' },
+  { id: 'q_2', type: 'short_answer', question: 'Which gas do plants take in?', acceptedAnswers: ['oxygen'], explanation: 'Wrong on purpose.' },
+  { id: 'q_3', type: 'multiple_choice', question: 'What is 2 + 2?', options: ['3', '4'], correctAnswer: 0, explanation: 'Wrong on purpose.' }
+]
+
+beforeEach(() => {
+  generateObject.mockReset()
+})
+
+describe('verifyAnswerKey', () => {
+  it('flags free-text questions only when the checker rejects the stored answer', async () => {
+    generateObject.mockResolvedValue({
+      object: {
+        answers: [
+          { id: 'q_1', answer: 'The mitochondria', ambiguous: false, agreesWithKey: true },
+          { id: 'q_2', answer: 'Carbon dioxide', ambiguous: false, agreesWithKey: false },
+          { id: 'q_3', answer: 1, ambiguous: false }
+        ]
+      }
+    })
+
+    const flags = await verifyAnswerKey(questions)
+
+    expect(flags.q_1).toBeUndefined()
+    expect(flags.q_2?.map(flag => flag.kind)).toEqual(['answer_mismatch'])
+    expect(flags.q_3?.[0].message).toContain('"4"')
+    // The checker is shown the stored answer of free-text questions only
+    const prompt: string = generateObject.mock.calls[0][0].prompt
+    expect(prompt).toContain('Stored answer: "mitochondrion"')
+    expect(prompt).not.toContain('Stored answer: "3"')
+  })
+})
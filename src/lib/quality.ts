@@ -0,0 +1,210 @@
+import { blink } from '@/blink/client'
+import { isAnswerCorrect } from '@/lib/questions'
+import type { Question, QuestionAnswer } from '@/types'
+
+export type QualityFlagKind = 'answer_mismatch' | 'ambiguous' | 'all_of_the_above' | 'giveaway'
+
+export interface QualityFlag {
+  kind: QualityFlagKind
+  message: string
+}
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlagKind, string> = {
+  answer_mismatch: 'Answer key disagreement',
+  ambiguous: 'Ambiguous',
+  all_of_the_above: 'All/none of the above',
+  giveaway: 'Gives the answer away'
+}
+
+// Questions sent to the checker per request
+const VERIFY_BATCH_SIZE = 20
+
+const ALL_OF_THE_ABOVE = /\b(all|none|both|neither) of the (above|these|options|answers)\b|^(both|all|neither) [a-f] (and|nor) [a-f]$/i
+const NEGATIVE_WORDS = /\b(not|except|least|never)\b/i
+const EMPHASISED_NEGATIVE = /\b(NOT|EXCEPT|LEAST|NEVER)\b/
+const ABSOLUTE_WORDS = /\b(always|never|all|none|only|every)\b/i
+
+const contentWords = (text: string) =>
+  new Set(text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(word => word.length > 3))
+
+/**
+ * Checks that need no AI: patterns item writers are taught to avoid because
+ * they let test-wise learners answer without knowing the material.
+ */
+export function lintQuestion(question: Question): QualityFlag[] {
+  const flags: QualityFlag[] = []
+  const stem = question.question.trim()
+
+  if (NEGATIVE_WORDS.test(stem) && !EMPHASISED_NEGATIVE.test(stem)) {
+    flags.push({ kind: 'ambiguous', message: 'The question is negatively worded; write NOT/EXCEPT in capitals so it is not misread.' })
+  }
+  if (stem.length < 15) {
+    flags.push({ kind: 'ambiguous', message: 'The question is very short and may not say enough to have a single answer.' })
+  }
+
+  if (question.type === 'multiple_choice' || question.type === 'multi_select') {
+    if (question.options.some(option => ALL_OF_THE_ABOVE.test(option.trim()))) {
+      flags.push({ kind: 'all_of_the_above', message: 'An option such as "all of the above" can be answered by spotting two true options.' })
+    }
+
+    const correct = question.type === 'multiple_choice' ? [question.correctAnswer] : question.correctAnswers
+    const isCorrect = (index: number) => correct.includes(index)
+    const distractors = question.options.filter((_, index) => !isCorrect(index))
+
+    if (question.type === 'multi_select' && distractors.length === 0) {
+      flags.push({ kind: 'giveaway', message: 'Every option is correct.' })
+    }
+
+    if (question.type === 'multiple_choice' && distractors.length > 0) {
+      const answer = question.options[question.correctAnswer] ?? ''
+      const longestDistractor = Math.max(...distractors.map(option => option.length))
+      const averageDistractor = distractors.reduce((sum, option) => sum + option.length, 0) / distractors.length
+      if (answer.length >= averageDistractor * 1.6 && answer.length - longestDistractor >= 15) {
+        flags.push({ kind: 'giveaway', message: 'The correct option is much longer than the others.' })
+      }
+
+      // The stem and the answer sharing a word no distractor uses is a classic clue
+      const stemWords = contentWords(stem)
+      const distractorWords = new Set(distractors.flatMap(option => [...contentWords(option)]))
+      const echoed = [...contentWords(answer)].filter(word => stemWords.has(word) && !distractorWords.has(word))
+      if (echoed.length > 0) {
+        flags.push({ kind: 'giveaway', message: `Only the correct option repeats "${echoed[0]}" from the question.` })
+      }
+    }
+  }
+
+  if (question.type === 'true_false' && !question.correctAnswer && ABSOLUTE_WORDS.test(stem)) {
+    flags.push({ kind: 'giveaway', message: 'False statements with words like "always" or "never" are easy to guess.' })
+  }
+
+  return flags
+}
+
+const describeForChecker = (question: Question) => {
+  switch (question.type) {
+    case 'multiple_choice':
+      return `${question.question}\nOptions:\n${question.options.map((option, index) => `${index}. ${option}`).join('\n')}\nAnswer with the number of the correct option.`
+    case 'multi_select':
+      return `${question.question}\nOptions:\n${question.options.map((option, index) => `${index}. ${option}`).join('\n')}\nAnswer with the numbers of every correct option.`
+    case 'true_false':
+      return `True or false: ${question.question}\nAnswer with true or false.`
+    case 'numeric':
+      return `${question.question}${question.unit ? ` (in ${question.unit})` : ''}\nAnswer with a number.`
+    default:
+      return `${question.question}\nStored answer: ${question.acceptedAnswers.map(answer => `"${answer}"`).join(' or ')}\nAnswer in a few words, then say whether the stored answer is correct.`
+  }
+}
+
+// Free-text answers rarely match the stored wording exactly, so for these the
+// checker judges the stored answer instead of having its own answer compared
+const isFreeText = (question: Question) => question.type === 'fill_blank' || question.type === 'short_answer'
+
+const toAnswer = (question: Question, value: unknown): QuestionAnswer | undefined => {
+  if (value === null || value === undefined) return undefined
+  switch (question.type) {
+    case 'multiple_choice':
+      return Number(value)
+    case 'multi_select':
+      return Array.isArray(value) ? value.map(Number) : [Number(value)]
+    case 'true_false':
+      return value === true || String(value).toLowerCase() === 'true'
+    default:
+      return String(value)
+  }
+}
+
+const formatCheckerAnswer = (question: Question, answer: QuestionAnswer | undefined) => {
+  if (answer === undefined) return 'no answer'
+  if (question.type === 'multiple_choice') return `"${question.options[answer as number] ?? answer}"`
+  if (question.type === 'multi_select') return (answer as number[]).map(index => `"${question.options[index] ?? index}"`).join(', ')
+  return `"${String(answer)}"`
+}
+
+/**
+ * Has the AI answer every question without seeing the answer key, and flags
+ * the questions where it disagrees with the key or finds more than one
+ * defensible answer. Fill-in and short answer questions show the stored
+ * answer, and are flagged only when the checker rejects it.
+ */
+export async function verifyAnswerKey(questions: Question[], signal?: AbortSignal): Promise<Record<string, QualityFlag[]>> {
+  const flags: Record<string, QualityFlag[]> = {}
+
+  for (let start = 0; start < questions.length; start += VERIFY_BATCH_SIZE) {
+    const batch = questions.slice(start, start + VERIFY_BATCH_SIZE)
+    const { object } = await blink.ai.generateObject({
+      prompt: `Answer each of these quiz questions yourself, as an expert in the subject. Do not assume the questions are well written.
+For each question give your answer, set ambiguous to true if more than one answer could reasonably be defended or the question is unclear, and explain any problem in a short note.
+Where a stored answer is shown, also set agreesWithKey to whether it correctly answers the question; differences in wording, spelling or case do not matter.
+
+${batch.map(question => `[${question.id}]\n${describeForChecker(question)}`).join('\n\n')}`,
+      schema: {
+        type: 'object',
+        properties: {
+          answers: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                answer: { type: ['number', 'boolean', 'string', 'array'], items: { type: 'number' } },
+                ambiguous: { type: 'boolean' },
+                agreesWithKey: { type: 'boolean' },
+                note: { type: 'string' }
+              },
+              required: ['id', 'answer', 'ambiguous']
+            }
+          }
+        },
+        required: ['answers']
+      },
+      signal
+    })
+
+    const results: any[] = object.answers || []
+    results.forEach(result => {
+      const question = batch.find(item => item.id === result.id)
+      if (!question) return
+
+      const questionFlags: QualityFlag[] = []
+      const answer = toAnswer(question, result.answer)
+      const disagrees = isFreeText(question)
+        ? result.agreesWithKey === false && !isAnswerCorrect(question, answer)
+        : !isAnswerCorrect(question, answer)
+      if (disagrees) {
+        questionFlags.push({
+          kind: 'answer_mismatch',
+          message: `An independent check answered ${formatCheckerAnswer(question, answer)}.${result.note ? ` ${result.note}` : ''}`
+        })
+      }
+      if (result.ambiguous) {
+        questionFlags.push({ kind: 'ambiguous', message: result.note || 'More than one answer could be defended.' })
+      }
+      if (questionFlags.length > 0) flags[question.id] = questionFlags
+    })
+  }
+
+  return flags
+}
+
+/**
+ * Runs the pattern checks and the independent answer check. If the AI check
+ * fails, the pattern flags are still returned with `verified` set to false.
+ */
+export async function checkQuizQuality(questions: Question[], signal?: AbortSignal): Promise<{ flags: Record<string, QualityFlag[]>; verified: boolean }> {
+  const flags: Record<string, QualityFlag[]> = {}
+  questions.forEach(question => {
+    const questionFlags = lintQuestion(question)
+    if (questionFlags.length > 0) flags[question.id] = questionFlags
+  })
+
+  try {
+    const verified = await verifyAnswerKey(questions, signal)
+    Object.entries(verified).forEach(([id, questionFlags]) => {
+      flags[id] = [...questionFlags, ...(flags[id] ?? [])]
+    })
+    return { flags, verified: true }
+  } catch (error) {
+    if (!signal?.aborted) console.error('Error verifying the answer key:', error)
+    return { flags, verified: false }
+  }
+}
@@ -0,0 +1,162 @@
+import { createBlankQuestion } from '@/lib/questions'
+import type { Question, QuestionAnswer, QuestionType } from '@/types'
+
+/**
+ * A question being edited. `optionKeys` runs parallel to `options` and
+ * remembers where each option started out (`opt_<original index>`), so
+ * stored attempt answers can follow options that were moved or removed.
+ */
+export type DraftQuestion = Question & { optionKeys?: string[] }
+
+// Maps an original option index to its new index, or undefined when removed
+export type OptionRemap = Record<string, (number | undefined)[]>
+
+const newOptionKey = () => `new_${Math.random().toString(36).slice(2, 9)}`
+
+export function toDraft(question: Question): DraftQuestion {
+  return 'options' in question
+    ? { ...question, optionKeys: question.options.map((_, index) => `opt_${index}`) }
+    : question
+}
+
+export function fromDraft(draft: DraftQuestion): Question {
+  const { optionKeys: _optionKeys, ...question } = draft
+  return question as Question
+}
+
+// Strips blank accepted answers the editor keeps around while typing
+export function cleanQuestion(question: Question): Question {
+  if ('acceptedAnswers' in question) {
+    return { ...question, acceptedAnswers: question.acceptedAnswers.map(answer => answer.trim()).filter(Boolean) }
+  }
+  return question
+}
+
+/**
+ * Keys for the draft's options. Drafts whose keys no longer line up with
+ * their options (after a type change, for example) get fresh keys, which
+ * treats every option as new.
+ */
+export function optionKeysOf(draft: DraftQuestion): string[] {
+  if (!('options' in draft)) return []
+  if (draft.optionKeys && draft.optionKeys.length === draft.options.length) return draft.optionKeys
+  return draft.options.map(newOptionKey)
+}
+
+export function withNewOption(draft: DraftQuestion): DraftQuestion {
+  if (!('options' in draft)) return draft
+  return { ...draft, options: [...draft.options, ''], optionKeys: [...optionKeysOf(draft), newOptionKey()] }
+}
+
+// Applies an old-index -> new-index mapping to the draft's answer key
+function remapCorrect(draft: DraftQuestion, options: string[], optionKeys: string[], map: (index: number) => number | undefined): DraftQuestion {
+  if (draft.type === 'multi_select') {
+    const correctAnswers = draft.correctAnswers
+      .map(map)
+      .filter((index): index is number => index !== undefined)
+      .sort((a, b) => a - b)
+    return { ...draft, options, optionKeys, correctAnswers }
+  }
+  if (draft.type === 'multiple_choice') {
+    return { ...draft, options, optionKeys, correctAnswer: map(draft.correctAnswer) ?? 0 }
+  }
+  return draft
+}
+
+export function withoutOption(draft: DraftQuestion, index: number): DraftQuestion {
+  if (!('options' in draft)) return draft
+  const keep = (_: unknown, i: number) => i !== index
+  return remapCorrect(
+    draft,
+    draft.options.filter(keep),
+    optionKeysOf(draft).filter(keep),
+    value => (value === index ? undefined : value > index ? value - 1 : value)
+  )
+}
+
+export function withMovedOption(draft: DraftQuestion, fromIndex: number, toIndex: number): DraftQuestion {
+  if (!('options' in draft)) return draft
+  const order = draft.options.map((_, index) => index)
+  order.splice(toIndex, 0, ...order.splice(fromIndex, 1))
+  return remapCorrect(
+    draft,
+    order.map(index => draft.options[index]),
+    order.map(index => optionKeysOf(draft)[index]),
+    value => order.indexOf(value)
+  )
+}
+
+export function withType(draft: DraftQuestion, type: QuestionType): DraftQuestion {
+  const question = createBlankQuestion(type, fromDraft(draft))
+  return 'options' in question ? { ...question, optionKeys: question.options.map(newOptionKey) } : question
+}
+
+/**
+ * Compares saved questions with their drafts and returns, for every
+ * question whose options moved, how old option indices map to new ones.
+ * Questions whose type changed map every old index to undefined.
+ */
+export function buildOptionRemap(original: Question[], drafts: DraftQuestion[]): OptionRemap {
+  const remap: OptionRemap = {}
+
+  original.forEach(question => {
+    if (!('options' in question)) return
+    const draft = drafts.find(item => item.id === question.id)
+    if (!draft) return
+
+    const keys = draft.type === question.type ? optionKeysOf(draft) : []
+    const mapping = question.options.map((_, index) => {
+      const position = keys.indexOf(`opt_${index}`)
+      return position === -1 ? undefined : position
+    })
+
+    if (mapping.some((value, index) => value !== index)) {
+      remap[question.id] = mapping
+    }
+  })
+
+  return remap
+}
+
+export function remapAnswers(
+  answers: Record<string, QuestionAnswer>,
+  remap: OptionRemap
+): Record<string, QuestionAnswer> {
+  const result: Record<string, QuestionAnswer> = {}
+
+  Object.entries(answers).forEach(([questionId, answer]) => {
+    const mapping = remap[questionId]
+    if (!mapping) {
+      result[questionId] = answer
+    } else if (Array.isArray(answer)) {
+      const mapped = answer.map(index => mapping[index]).filter((index): index is number => index !== undefined)
+      if (mapped.length > 0) result[questionId] = mapped.sort((a, b) => a - b)
+    } else if (typeof answer === 'number') {
+      const mapped = mapping[answer]
+      if (mapped !== undefined) result[questionId] = mapped
+    }
+  })
+
+  return result
+}
+
+/**
+ * Moves a translation's options the way the original's moved, so its
+ * answer key still lines up. Options added in the original are copied
+ * untranslated, and a question whose type changed is replaced by the
+ * edited one until the quiz is translated again.
+ */
+export function remapTranslatedOptions(translated: Question[], edited: Question[], remap: OptionRemap): Question[] {
+  return translated.map(question => {
+    const mapping = remap[question.id]
+    const source = edited.find(item => item.id === question.id)
+    if (!mapping || !source || !('options' in question)) return question
+    if (source.type !== question.type || !('options' in source)) return source
+
+    const options = source.options.map((text, index) => {
+      const previous = mapping.indexOf(index)
+      return previous === -1 ? text : question.options[previous]
+    })
+    return { ...source, question: question.question, explanation: question.explanation, options } as Question
+  })
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import type { Question } from '@/types'
+import { formatCorrectAnswer, isAnswerCorrect, normalizeQuestion } from './questions'
+
+const base = { id: 'q_1', question: 'Question?', explanation: 'Because.' }
+
+describe('normalizeQuestion', () => {
+  it('keeps the answer key on the same option when blank options are dropped', () => {
+    const single = normalizeQuestion({ ...base, options: ['', 'Paris', ' ', 'Rome'], correctAnswer: 3 }, 0)
+    expect(single).toMatchObject({ type: 'multiple_choice', options: ['Paris', 'Rome'], correctAnswer: 1 })
+    expect(formatCorrectAnswer(single)).toBe('Rome')
+
+    const multi = normalizeQuestion({ ...base, type: 'multi_select', options: ['Red', '', 'Blue', 'Green'], correctAnswers: [2, 3] }, 0)
+    expect(multi).toMatchObject({ options: ['Red', 'Blue', 'Green'], correctAnswers: [1, 2] })
+    expect(formatCorrectAnswer(multi)).toBe('Blue, Green')
+  })
+
+  it('leaves no valid key when the key pointed at a blank option', () => {
+    expect(normalizeQuestion({ ...base, options: ['A', '', 'C'], correctAnswer: 1 }, 0)).toMatchObject({ correctAnswer: -1 })
+    expect(normalizeQuestion({ ...base, type: 'multi_select', options: ['A', '', 'C'], correctAnswers: [1, 2] }, 0))
+      .toMatchObject({ correctAnswers: [1] })
+  })
+})
+
+describe('isAnswerCorrect', () => {
+  it('accepts numeric answers within the tolerance', () => {
+    const question: Question = { ...base, type: 'numeric', correctAnswer: 9.81, tolerance: 0.05, unit: 'm/s²' }
+
+    expect(isAnswerCorrect(question, '9.8')).toBe(true)
+    expect(isAnswerCorrect(question, ' 9.86 ')).toBe(true)
+    expect(isAnswerCorrect(question, '9.87')).toBe(false)
+    expect(isAnswerCorrect(question, 'nine')).toBe(false)
+    expect(isAnswerCorrect({ ...question, correctAnswer: 1200, tolerance: 0 }, '1,200')).toBe(true)
+    expect(formatCorrectAnswer(question)).toBe('9.81 m/s² (± 0.05)')
+  })
+
+  it('compares multi-select answers as sets', () => {
+    const question: Question = { ...base, type: 'multi_select', options: ['A', 'B', 'C', 'D'], correctAnswers: [0, 2] }
+
+    expect(isAnswerCorrect(question, [2, 0])).toBe(true)
+    expect(isAnswerCorrect(question, [0, 2, 2])).toBe(true)
+    expect(isAnswerCorrect(question, [0])).toBe(false)
+    expect(isAnswerCorrect(question, [0, 1, 2])).toBe(false)
+    expect(isAnswerCorrect(question, [])).toBe(false)
+  })
+
+  it('ignores case, punctuation and spacing in free-text answers', () => {
+    const blank: Question = { ...base, type: 'fill_blank', acceptedAnswers: ['Mitochondrion', 'the mitochondria'] }
+    const short: Question = { ...base, type: 'short_answer', acceptedAnswers: ['carbon dioxide', ' '] }
+
+    expect(isAnswerCorrect(blank, '  MITOCHONDRION. ')).toBe(true)
+    expect(isAnswerCorrect(blank, 'The   Mitochondria')).toBe(true)
+    expect(isAnswerCorrect(blank, 'mitochondrial')).toBe(false)
+    expect(isAnswerCorrect(short, 'Plants take in Carbon  Dioxide!')).toBe(true)
+    // A blank accepted answer must not match everything
+    expect(isAnswerCorrect(short, 'oxygen')).toBe(false)
+    expect(formatCorrectAnswer(blank)).toBe('Mitochondrion / the mitochondria')
+  })
+})
@@ -0,0 +1,264 @@
+import type { CognitiveLevel, Question, QuestionAnswer, QuestionSource, QuestionType } from '@/types'
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  multiple_choice: 'Multiple Choice',
+  true_false: 'True / False',
+  multi_select: 'Multi-select',
+  fill_blank: 'Fill in the Blank',
+  numeric: 'Numeric',
+  short_answer: 'Short Answer'
+}
+
+export const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]
+
+export const COGNITIVE_LEVEL_LABELS: Record<CognitiveLevel, string> = {
+  recall: 'Recall',
+  understand: 'Understand',
+  apply: 'Apply',
+  analyze: 'Analyze'
+}
+
+export const COGNITIVE_LEVELS = Object.keys(COGNITIVE_LEVEL_LABELS) as CognitiveLevel[]
+
+// Most options a choice question can have, in the editor and in imported files alike
+export const MAX_OPTIONS = 6
+
+// Other names the AI uses for the same levels
+const LEVEL_ALIASES: Record<string, CognitiveLevel> = { remember: 'recall', understanding: 'understand', application: 'apply', analyse: 'analyze', analysis: 'analyze' }
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(item => String(item)).filter(item => item.trim() !== '') : []
+
+const toIndexArray = (value: unknown): number[] =>
+  Array.isArray(value) ? [...new Set(value.map(Number).filter(Number.isInteger))].sort((a, b) => a - b) : []
+
+/**
+ * Drops blank options and returns a lookup from an original option index to
+ * its new one, so answer keys keep pointing at the same option text. A key
+ * that pointed at a blank option maps to -1.
+ */
+function toOptions(value: unknown): { options: string[], remap: (index: number) => number } {
+  const all = Array.isArray(value) ? value.map(item => String(item)) : []
+  const kept = all.flatMap((option, index) => option.trim() === '' ? [] : [index])
+  return { options: kept.map(index => all[index]), remap: index => kept.indexOf(index) }
+}
+
+const toOptionalNumber = (value: unknown): number | undefined =>
+  value === null || value === undefined || value === '' || !Number.isFinite(Number(value)) ? undefined : Number(value)
+
+function toLevel(value: unknown): CognitiveLevel | undefined {
+  const level = String(value ?? '').trim().toLowerCase()
+  return COGNITIVE_LEVELS.includes(level as CognitiveLevel) ? level as CognitiveLevel : LEVEL_ALIASES[level]
+}
+
+function toSource(raw: any): QuestionSource | undefined {
+  if (!raw || typeof raw !== 'object' || !String(raw.excerpt ?? '').trim()) return undefined
+  return {
+    excerpt: String(raw.excerpt).trim(),
+    section: raw.section ? String(raw.section) : undefined,
+    page: toOptionalNumber(raw.page),
+    offset: toOptionalNumber(raw.offset)
+  }
+}
+
+/**
+ * Turns a stored or AI-generated question into a typed `Question`.
+ * Questions saved before question types existed have no `type` and are
+ * treated as 4-option multiple choice.
+ */
+export function normalizeQuestion(raw: any, index: number): Question {
+  const base = {
+    id: raw.id || `q_${index + 1}`,
+    question: String(raw.question ?? ''),
+    explanation: raw.explanation,
+    source: toSource(raw.source),
+    objective: String(raw.objective ?? '').trim() || undefined,
+    level: toLevel(raw.level)
+  }
+
+  switch (raw.type) {
+    case 'true_false':
+      return {
+        ...base,
+        type: 'true_false',
+        correctAnswer: raw.correctAnswer === true || raw.correctAnswer === 'true' || raw.correctAnswer === 0
+      }
+    case 'multi_select': {
+      const { options, remap } = toOptions(raw.options)
+      return {
+        ...base,
+        type: 'multi_select',
+        options,
+        correctAnswers: toIndexArray(raw.correctAnswers).map(remap).filter(index => index >= 0)
+      }
+    }
+    case 'fill_blank':
+    case 'short_answer':
+      return {
+        ...base,
+        type: raw.type,
+        acceptedAnswers: toStringArray(raw.acceptedAnswers)
+      }
+    case 'numeric':
+      return {
+        ...base,
+        type: 'numeric',
+        correctAnswer: Number(raw.correctAnswer) || 0,
+        tolerance: Math.abs(Number(raw.tolerance) || 0),
+        unit: raw.unit || undefined
+      }
+    default: {
+      const { options, remap } = toOptions(raw.options)
+      return {
+        ...base,
+        type: 'multiple_choice',
+        options,
+        correctAnswer: remap(Number(raw.correctAnswer) || 0)
+      }
+    }
+  }
+}
+
+export function parseQuestions(value: unknown): Question[] {
+  const raw = typeof value === 'string' ? JSON.parse(value) : value
+  return Array.isArray(raw) ? raw.map(normalizeQuestion) : []
+}
+
+const normalizeText = (value: string) =>
+  value.toLowerCase().replace(/[.,;:!?"']/g, '').replace(/\s+/g, ' ').trim()
+
+export function hasAnswer(answer: QuestionAnswer | undefined): boolean {
+  if (answer === undefined || answer === null) return false
+  if (typeof answer === 'string') return answer.trim() !== ''
+  if (Array.isArray(answer)) return answer.length > 0
+  return true
+}
+
+export function isAnswerCorrect(question: Question, answer: QuestionAnswer | undefined): boolean {
+  if (!hasAnswer(answer)) return false
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return answer === question.correctAnswer
+    case 'true_false':
+      return answer === question.correctAnswer
+    case 'multi_select': {
+      if (!Array.isArray(answer)) return false
+      const selected = [...new Set(answer)].sort((a, b) => a - b)
+      return selected.length === question.correctAnswers.length &&
+        selected.every((value, i) => value === question.correctAnswers[i])
+    }
+    case 'fill_blank': {
+      const response = normalizeText(String(answer))
+      return question.acceptedAnswers.some(accepted => normalizeText(accepted) === response)
+    }
+    case 'short_answer': {
+      // Short answers pass when they contain one of the accepted key phrases
+      const response = normalizeText(String(answer))
+      return question.acceptedAnswers.some(accepted => {
+        const key = normalizeText(accepted)
+        return key !== '' && response.includes(key)
+      })
+    }
+    case 'numeric': {
+      const value = Number(String(answer).replace(/,/g, '').trim())
+      return Number.isFinite(value) && Math.abs(value - question.correctAnswer) <= question.tolerance
+    }
+  }
+}
+
+export function formatCorrectAnswer(question: Question): string {
+  switch (question.type) {
+    case 'multiple_choice':
+      return question.options[question.correctAnswer] ?? ''
+    case 'true_false':
+      return question.correctAnswer ? 'True' : 'False'
+    case 'multi_select':
+      return question.correctAnswers.map(index => question.options[index]).join(', ')
+    case 'fill_blank':
+    case 'short_answer':
+      return question.acceptedAnswers.join(' / ')
+    case 'numeric': {
+      const unit = question.unit ? ` ${question.unit}` : ''
+      return question.tolerance > 0
+        ? `${question.correctAnswer}${unit} (± ${question.tolerance})`
+        : `${question.correctAnswer}${unit}`
+    }
+  }
+}
+
+// Ids must never be reused: attempt answers are keyed by question id
+export function createQuestionId(): string {
+  return `q_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`
+}
+
+/**
+ * Builds an empty question of the given type, keeping the id, text and
+ * explanation of `from` so switching type in the editor is not destructive.
+ */
+export function createBlankQuestion(type: QuestionType, from?: Question): Question {
+  const base = {
+    id: from?.id ?? createQuestionId(),
+    question: from?.question ?? '',
+    explanation: from?.explanation ?? '',
+    source: from?.source,
+    objective: from?.objective,
+    level: from?.level
+  }
+  const previousOptions = from && 'options' in from ? from.options : ['', '', '', '']
+
+  switch (type) {
+    case 'multiple_choice':
+      return { ...base, type, options: previousOptions, correctAnswer: 0 }
+    case 'true_false':
+      return { ...base, type, correctAnswer: true }
+    case 'multi_select':
+      return { ...base, type, options: previousOptions, correctAnswers: [] }
+    case 'fill_blank':
+    case 'short_answer':
+      return { ...base, type, acceptedAnswers: [''] }
+    case 'numeric':
+      return { ...base, type, correctAnswer: 0, tolerance: 0 }
+  }
+}
+
+export function validateQuestion(question: Question): string[] {
+  const errors: string[] = []
+
+  if (!question.question.trim()) errors.push('Question text is required')
+  if (!question.explanation?.trim()) errors.push('Explanation is required')
+
+  if ('options' in question) {
+    const options = question.options.map(option => option.trim().toLowerCase())
+    if (options.length < 2) errors.push('At least two options are required')
+    if (options.length > MAX_OPTIONS) errors.push(`At most ${MAX_OPTIONS} options are allowed`)
+    if (options.some(option => option === '')) errors.push('Options cannot be empty')
+    if (new Set(options).size !== options.length) errors.push('Options must be distinct')
+  }
+
+  switch (question.type) {
+    case 'multiple_choice':
+      if (!Number.isInteger(question.correctAnswer) || question.correctAnswer < 0 || question.correctAnswer >= question.options.length) {
+        errors.push('Select the correct option')
+      }
+      break
+    case 'multi_select':
+      if (question.correctAnswers.length === 0) errors.push('Select at least one correct option')
+      if (question.correctAnswers.some(index => index < 0 || index >= question.options.length)) {
+        errors.push('Correct options must exist')
+      }
+      break
+    case 'fill_blank':
+    case 'short_answer':
+      if (!question.acceptedAnswers.some(answer => answer.trim() !== '')) {
+        errors.push('At least one accepted answer is required')
+      }
+      break
+    case 'numeric':
+      if (!Number.isFinite(question.correctAnswer)) errors.push('Correct answer must be a number')
+      if (!Number.isFinite(question.tolerance) || question.tolerance < 0) errors.push('Tolerance must be zero or more')
+      break
+  }
+
+  return errors
+}
@@ -0,0 +1,156 @@
+import { z } from 'zod'
+import { MAX_OPTIONS, normalizeQuestion } from '@/lib/questions'
+import type { Question, Quiz } from '@/types'
+
+/**
+ * Strict schemas for questions and quizzes that come from outside the app:
+ * AI responses and imported files. Stored quizzes keep going through the
+ * lenient `normalizeQuestion`, which never rejects anything.
+ */
+
+const requiredText = (label: string) =>
+  z.string({ error: `${label} is missing` }).trim().min(1, `${label} is empty`)
+
+const sourceSchema = z.object({
+  excerpt: z.string().trim().min(1),
+  section: z.string().trim().optional(),
+  page: z.coerce.number().int().positive().optional(),
+  offset: z.coerce.number().int().nonnegative().optional()
+}).optional().catch(undefined)
+
+const base = {
+  id: z.string().optional(),
+  question: requiredText('Question text'),
+  explanation: requiredText('Explanation'),
+  source: sourceSchema,
+  // Checked loosely: normalizeQuestion maps the level's synonyms and drops unknown ones
+  objective: z.string().optional().catch(undefined),
+  level: z.string().optional().catch(undefined)
+}
+
+const optionsSchema = z.array(requiredText('Option'), { error: 'Options are missing' })
+  .min(2, 'Needs at least two options')
+  .max(MAX_OPTIONS, `Has more than ${MAX_OPTIONS} options`)
+  .refine(options => new Set(options.map(option => option.toLowerCase())).size === options.length, 'Options must be distinct')
+
+const optionIndex = z.coerce.number({ error: 'Correct answer must be an option number' }).int('Correct answer must be an option number')
+
+// Blank and repeated accepted answers are dropped before checking there is one left
+const acceptedAnswersSchema = z.array(z.string().trim(), { error: 'Accepted answers are missing' })
+  .transform(answers => answers.filter((answer, index) =>
+    answer !== '' && answers.findIndex(other => other.toLowerCase() === answer.toLowerCase()) === index))
+  .pipe(z.array(z.string()).min(1, 'Needs at least one accepted answer'))
+
+const typedQuestionSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...base,
+    type: z.literal('multiple_choice'),
+    options: optionsSchema,
+    correctAnswer: optionIndex
+  }),
+  z.object({
+    ...base,
+    type: z.literal('true_false'),
+    correctAnswer: z.union([
+      z.boolean(),
+      z.enum(['true', 'false']).transform(value => value === 'true')
+    ], { error: 'Correct answer must be true or false' })
+  }),
+  z.object({
+    ...base,
+    type: z.literal('multi_select'),
+    options: optionsSchema,
+    correctAnswers: z.array(optionIndex, { error: 'Correct options are missing' })
+      .min(1, 'Needs at least one correct option')
+      .transform(indexes => [...new Set(indexes)].sort((a, b) => a - b))
+  }),
+  z.object({
+    ...base,
+    type: z.enum(['fill_blank', 'short_answer']),
+    acceptedAnswers: acceptedAnswersSchema
+  }),
+  z.object({
+    ...base,
+    type: z.literal('numeric'),
+    correctAnswer: z.coerce.number({ error: 'Correct answer must be a number' }),
+    tolerance: z.preprocess(value => value ?? 0, z.coerce.number().min(0, 'Tolerance must be zero or more')),
+    unit: z.string().trim().optional().transform(unit => unit || undefined)
+  })
+], { error: 'Unknown question type' }).superRefine((question, ctx) => {
+  if (question.type === 'multiple_choice' && (question.correctAnswer < 0 || question.correctAnswer >= question.options.length)) {
+    ctx.addIssue({ code: 'custom', path: ['correctAnswer'], message: 'Correct answer is out of range' })
+  }
+  if (question.type === 'multi_select' && question.correctAnswers.some(index => index < 0 || index >= question.options.length)) {
+    ctx.addIssue({ code: 'custom', path: ['correctAnswers'], message: 'A correct option is out of range' })
+  }
+})
+
+// Questions written before question types existed are multiple choice
+export const questionSchema = z.preprocess(
+  raw => raw && typeof raw === 'object' && !('type' in raw) ? { ...raw, type: 'multiple_choice' } : raw,
+  typedQuestionSchema
+)
+
+export interface QuestionProblem {
+  index: number
+  question: string
+  issues: string[]
+}
+
+/**
+ * Splits raw questions into the ones that pass the schema, normalized, and
+ * the problems found with the rest.
+ */
+export function checkQuestions(rawQuestions: unknown[]): { valid: Question[]; problems: QuestionProblem[] } {
+  const valid: Question[] = []
+  const problems: QuestionProblem[] = []
+
+  rawQuestions.forEach((raw, index) => {
+    const result = questionSchema.safeParse(raw)
+    if (result.success) {
+      valid.push(normalizeQuestion(result.data, valid.length))
+    } else {
+      problems.push({
+        index,
+        question: String((raw as any)?.question ?? '').trim() || `Question ${index + 1}`,
+        issues: [...new Set(result.error.issues.map(issue => issue.message))]
+      })
+    }
+  })
+
+  return { valid, problems }
+}
+
+const quizImportSchema = z.object({
+  title: requiredText('Title'),
+  description: z.string().trim().optional().catch(undefined),
+  topic: z.string().trim().optional().catch(undefined),
+  difficulty: z.enum(['easy', 'medium', 'hard']).catch('medium'),
+  isTimed: z.boolean().catch(false),
+  timeLimit: z.coerce.number().int().positive().nullable().catch(null),
+  defaultMode: z.enum(['exam', 'practice']).catch('exam'),
+  language: z.string().trim().toLowerCase().min(2).optional().catch(undefined),
+  questions: z.array(z.unknown(), { error: 'Questions are missing' }).min(1, 'The quiz has no questions')
+})
+
+export type ImportedQuiz = Pick<Quiz, 'title' | 'description' | 'topic' | 'difficulty' | 'isTimed' | 'timeLimit' | 'defaultMode' | 'language' | 'questions'>
+
+/**
+ * Validates a quiz read from a JSON file. Invalid questions are left out and
+ * reported in `problems`; a file that is not a quiz at all throws.
+ */
+export function parseQuizImport(data: unknown): { quiz: ImportedQuiz; problems: QuestionProblem[] } {
+  const result = quizImportSchema.safeParse(data)
+  if (!result.success) {
+    throw new Error(result.error.issues.map(issue => issue.message).join('; '))
+  }
+
+  const { questions: rawQuestions, ...quiz } = result.data
+  const { valid, problems } = checkQuestions(rawQuestions)
+  if (valid.length === 0) throw new Error('None of the questions in the file are valid')
+
+  return {
+    quiz: { ...quiz, isTimed: quiz.isTimed && !!quiz.timeLimit, questions: valid },
+    problems
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { Quiz } from '@/types'
+import { attemptRepository, quizRepository } from '@/lib/data'
+import { scheduleReview, syncReviewCards } from './review'
+
+vi.mock('@/lib/data', async () => {
+  const { createLocalBackend } = await import('./data/localBackend')
+  const { createAttemptRepository, createQuizRepository, createReviewCardRepository } = await import('./data/repositories')
+  const backend = createLocalBackend(null)
+  return {
+    attemptRepository: createAttemptRepository(backend),
+    quizRepository: createQuizRepository(backend),
+    reviewCardRepository: createReviewCardRepository(backend)
+  }
+})
+
+const NOW = new Date('2026-03-01T12:00:00.000Z')
+const fresh = { easeFactor: 2.5, interval: 0, repetitions: 0 }
+
+describe('scheduleReview', () => {
+  it('grows the interval from 1 day to 6 days, then by the ease factor', () => {
+    const first = scheduleReview(fresh, 4, NOW)
+    expect(first).toMatchObject({ easeFactor: 2.5, interval: 1, repetitions: 1 })
+
+    const second = scheduleReview(first, 4, NOW)
+    expect(second).toMatchObject({ interval: 6, repetitions: 2 })
+
+    const third = scheduleReview(second, 4, NOW)
+    expect(third).toMatchObject({ interval: 15, repetitions: 3 })
+  })
+
+  it('adjusts the ease by how hard the recall was', () => {
+    const card = { easeFactor: 2.5, interval: 6, repetitions: 2 }
+
+    expect(scheduleReview(card, 5, NOW).easeFactor).toBe(2.6)
+    expect(scheduleReview(card, 4, NOW).easeFactor).toBe(2.5)
+    expect(scheduleReview(card, 3, NOW).easeFactor).toBe(2.36)
+    // The new interval uses the ease the card had before this review
+    expect(scheduleReview(card, 3, NOW).interval).toBe(15)
+  })
+
+  it('starts a forgotten card over and lowers its ease', () => {
+    const lapsed = scheduleReview({ easeFactor: 2.5, interval: 40, repetitions: 5 }, 1, NOW)
+
+    expect(lapsed).toMatchObject({ easeFactor: 1.96, interval: 1, repetitions: 0 })
+    expect(scheduleReview(lapsed, 4, NOW)).toMatchObject({ interval: 1, repetitions: 1 })
+  })
+
+  it('never lets the ease drop below 1.3', () => {
+    expect(scheduleReview({ easeFactor: 1.35, interval: 10, repetitions: 3 }, 1, NOW).easeFactor).toBe(1.3)
+    expect(scheduleReview({ easeFactor: 1.3, interval: 10, repetitions: 3 }, 3, NOW).easeFactor).toBe(1.3)
+  })
+
+  it('makes the card due a whole number of days after the review', () => {
+    expect(scheduleReview(fresh, 4, NOW).dueAt).toBe('2026-03-02T12:00:00.000Z')
+    expect(scheduleReview({ easeFactor: 2.5, interval: 6, repetitions: 2 }, 4, NOW).dueAt).toBe('2026-03-16T12:00:00.000Z')
+  })
+})
+
+describe('syncReviewCards', () => {
+  const quiz: Quiz = {
+    id: 'quiz_1',
+    title: 'Cells',
+    difficulty: 'easy',
+    isTimed: false,
+    questions: [
+      { id: 'q_1', type: 'true_false', question: 'Cells divide?', correctAnswer: true },
+      { id: 'q_2', type: 'true_false', question: 'Cells are large?', correctAnswer: false }
+    ],
+    userId: 'u1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z'
+  }
+  const attempt = (id: string, completedAt: string, answers: Record<string, boolean>) => ({
+    id,
+    quizId: 'quiz_1',
+    userId: 'u1',
+    answers,
+    score: 0,
+    totalQuestions: 2,
+    timeSpent: 10,
+    status: 'completed' as const,
+    completedAt
+  })
+
+  it('adds cards for past answers, then only scans attempts newer than the newest card', async () => {
+    await quizRepository.create(quiz)
+    // q_removed is no longer in the quiz and never gets a card
+    await attemptRepository.create(attempt('a1', '2026-01-02T00:00:00.000Z', { q_1: true, q_2: true, q_removed: true }))
+    const listCompleted = vi.spyOn(attemptRepository, 'listCompleted')
+
+    const cards = await syncReviewCards('u1')
+    expect(cards.map(card => card.questionId).sort()).toEqual(['q_1', 'q_2'])
+    // The wrong answer to q_2 is due straight away
+    expect(cards.find(card => card.questionId === 'q_2')?.dueAt).toBe('2026-01-02T00:00:00.000Z')
+    expect(listCompleted).toHaveBeenLastCalledWith('u1', { completedAfter: undefined })
+
+    expect(await syncReviewCards('u1')).toHaveLength(2)
+    expect(listCompleted).toHaveBeenLastCalledWith('u1', { completedAfter: cards[0].createdAt })
+  })
+})
@@ -0,0 +1,133 @@
+import { attemptRepository, quizRepository, reviewCardRepository } from '@/lib/data'
+import { isAnswerCorrect } from '@/lib/questions'
+import type { Question, QuestionAnswer, ReviewCard } from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const INITIAL_EASE = 2.5
+const MINIMUM_EASE = 1.3
+
+/** SM-2 recall quality: below 3 counts as forgotten. */
+export type ReviewQuality = 1 | 3 | 4 | 5
+
+export const REVIEW_GRADES: { quality: ReviewQuality; label: string }[] = [
+  { quality: 3, label: 'Hard' },
+  { quality: 4, label: 'Good' },
+  { quality: 5, label: 'Easy' }
+]
+
+export const QUALITY_FORGOTTEN: ReviewQuality = 1
+
+type Schedule = Pick<ReviewCard, 'easeFactor' | 'interval' | 'repetitions' | 'dueAt'>
+
+/**
+ * Next schedule for a card after a review, following SM-2: the interval grows
+ * 1 day, 6 days, then by the ease factor, and a lapse starts it over.
+ */
+export function scheduleReview(card: Pick<ReviewCard, 'easeFactor' | 'interval' | 'repetitions'>, quality: ReviewQuality, now: Date = new Date()): Schedule {
+  const easeFactor = Math.max(
+    MINIMUM_EASE,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  let repetitions = 0
+  let interval = 1
+  if (quality >= 3) {
+    repetitions = card.repetitions + 1
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * card.easeFactor)
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString()
+  }
+}
+
+export function isDue(card: Pick<ReviewCard, 'dueAt'>, now: Date = new Date()): boolean {
+  return new Date(card.dueAt).getTime() <= now.getTime()
+}
+
+export function formatInterval(days: number): string {
+  if (days < 30) return `${days}d`
+  if (days < 365) return `${Math.round(days / 30)}mo`
+  return `${Math.round((days / 365) * 10) / 10}y`
+}
+
+// One card per user and question, so syncing twice cannot create duplicates
+const reviewCardId = (userId: string, quizId: string, questionId: string) =>
+  `review_${userId}_${quizId}_${questionId}`
+
+function newReviewCard(userId: string, quizId: string, question: Question, answer: QuestionAnswer | undefined, answeredAt: Date): ReviewCard {
+  const now = new Date().toISOString()
+  const fresh = { easeFactor: INITIAL_EASE, interval: 0, repetitions: 0 }
+  // Questions answered wrong are due straight away; the rest are treated as a first good review
+  const schedule = isAnswerCorrect(question, answer)
+    ? scheduleReview(fresh, 4, answeredAt)
+    : { ...fresh, dueAt: answeredAt.toISOString() }
+
+  return {
+    id: reviewCardId(userId, quizId, question.id),
+    userId,
+    quizId,
+    questionId: question.id,
+    ...schedule,
+    lastReviewedAt: answeredAt.toISOString(),
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * Adds review cards for questions answered in a finished attempt that do not
+ * have one yet.
+ */
+export async function addReviewCards(userId: string, quizId: string, questions: Question[], answers: Record<string, QuestionAnswer>) {
+  const existing = await reviewCardRepository.listByUser(userId, quizId)
+  const known = new Set(existing.map(card => card.questionId))
+  const answeredAt = new Date()
+
+  const cards = questions
+    .filter(question => question.id in answers && !known.has(question.id))
+    .map(question => newReviewCard(userId, quizId, question, answers[question.id], answeredAt))
+
+  await reviewCardRepository.createMany(cards)
+}
+
+/**
+ * Makes sure every question the user has answered in a completed attempt has
+ * a review card, using the latest answer to schedule new ones. Returns all of
+ * the user's cards.
+ *
+ * Cards are added when an attempt is submitted, so only attempts completed
+ * after the newest card are scanned; the first sync covers the whole history.
+ */
+export async function syncReviewCards(userId: string): Promise<ReviewCard[]> {
+  const cards = await reviewCardRepository.listByUser(userId)
+  const newest = cards.reduce<string | undefined>((latest, card) => !latest || card.createdAt > latest ? card.createdAt : latest, undefined)
+  const attempts = await attemptRepository.listCompleted(userId, { completedAfter: newest })
+
+  const known = new Set(cards.map(card => `${card.quizId}:${card.questionId}`))
+  // Attempts are newest first, so the first answer seen for a question is the latest one
+  const pending = new Map<string, { quizId: string; questionId: string; answer: QuestionAnswer; answeredAt: Date }>()
+  for (const attempt of attempts) {
+    for (const [questionId, answer] of Object.entries(attempt.answers)) {
+      const key = `${attempt.quizId}:${questionId}`
+      if (known.has(key) || pending.has(key)) continue
+      pending.set(key, { quizId: attempt.quizId, questionId, answer, answeredAt: new Date(attempt.completedAt) })
+    }
+  }
+  if (pending.size === 0) return cards
+
+  const quizzes = await quizRepository.getMany([...pending.values()].map(entry => entry.quizId))
+
+  const created: ReviewCard[] = []
+  pending.forEach(({ quizId, questionId, answer, answeredAt }) => {
+    // Questions removed from their quiz since the attempt are skipped
+    const question = quizzes.get(quizId)?.questions.find(item => item.id === questionId)
+    if (question) created.push(newReviewCard(userId, quizId, question, answer, answeredAt))
+  })
+
+  await reviewCardRepository.createMany(created)
+  return [...cards, ...created]
+}
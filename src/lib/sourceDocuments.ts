@@ -0,0 +1,58 @@
+import { blink } from '@/blink/client'
+import { quizRepository, reviewCardRepository } from '@/lib/data'
+import type { Quiz, SourceDocument } from '@/types'
+
+// Quiz ids are picked up front so documents can be stored under the quiz before its row exists
+export function createQuizId(): string {
+  return `quiz_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, '_')
+
+export function sourceDocumentPath(userId: string, quizId: string, fileName: string): string {
+  return `quiz-sources/${userId}/${quizId}/${safeFileName(fileName)}`
+}
+
+export async function uploadSourceDocument(userId: string, quizId: string, file: File): Promise<SourceDocument> {
+  const path = sourceDocumentPath(userId, quizId, file.name)
+  const { publicUrl } = await blink.storage.upload(file, path, { upsert: true })
+  return {
+    name: file.name,
+    path,
+    url: publicUrl,
+    size: file.size,
+    type: file.type,
+    uploadedAt: new Date().toISOString()
+  }
+}
+
+export async function removeSourceDocuments(documents: SourceDocument[]) {
+  if (documents.length === 0) return
+  await blink.storage.remove(...documents.map(document => document.path))
+}
+
+// Fetches a stored document back as a file, so it can be attached to another quiz
+export async function downloadSourceDocument(document: SourceDocument): Promise<File> {
+  const response = await fetch(document.url)
+  if (!response.ok) throw new Error(`Could not download ${document.name} (${response.status})`)
+  const blob = await response.blob()
+  return new File([blob], document.name, { type: document.type || blob.type })
+}
+
+/**
+ * Deletes a quiz together with its source documents. The files are removed
+ * first: if that fails the quiz is kept, so its documents never end up
+ * stored without a quiz pointing at them.
+ */
+export async function deleteQuiz(quiz: Quiz) {
+  await removeSourceDocuments(quiz.sourceDocuments ?? [])
+  await quizRepository.delete(quiz.id)
+  // Cards of a deleted quiz could never be reviewed but would still count as due
+  await reviewCardRepository.deleteByQuiz(quiz.id)
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
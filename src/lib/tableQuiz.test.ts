@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { validateQuestion } from '@/lib/questions'
+import { buildTableQuestions, DEFAULT_TABLE_WORDING, parseDelimited, type TableQuizOptions } from './tableQuiz'
+
+const CAPITALS = 'Country,Capital,Note\nFrance,Paris,Seat of government\nSpain,Madrid,\nItaly,Rome,Founded on seven hills\nPeru,Lima,\n'
+const mapping = { prompt: 0, answer: 1, explanation: 2 }
+
+describe('parseDelimited', () => {
+  it('reads quoted fields, tabs and short rows', () => {
+    expect(parseDelimited('\uFEFFName,Quote\r\n"Smith, J.","He said ""hi"""\r\n\r\nSolo\r\n')).toEqual({
+      headers: ['Name', 'Quote'],
+      rows: [['Smith, J.', 'He said "hi"'], ['Solo', '']]
+    })
+    expect(parseDelimited('a\tb\n1\t2').rows).toEqual([['1', '2']])
+  })
+
+  it('keeps every row of a large file', () => {
+    const text = 'Term,Definition\n' + Array.from({ length: 200_000 }, (_, index) => `term ${index},definition ${index}`).join('\n')
+
+    const table = parseDelimited(text)
+
+    expect(table.rows).toHaveLength(200_000)
+    expect(table.rows[199_999]).toEqual(['term 199999', 'definition 199999'])
+  })
+})
+
+describe('buildTableQuestions', () => {
+  const table = parseDelimited(CAPITALS)
+
+  it('builds one valid multiple choice question per row with distractors from other rows', () => {
+    const questions = buildTableQuestions(table, mapping, { types: ['multiple_choice'], wording: DEFAULT_TABLE_WORDING })
+
+    expect(questions).toHaveLength(4)
+    questions.forEach(question => expect(validateQuestion(question)).toEqual([]))
+    const [france] = questions
+    expect(france.question).toBe('What is the capital of "France"?')
+    expect(france.explanation).toBe('Seat of government')
+    expect(france.type === 'multiple_choice' && [...france.options].sort()).toEqual(['Lima', 'Madrid', 'Paris', 'Rome'])
+    expect(france.type === 'multiple_choice' && france.options[france.correctAnswer]).toBe('Paris')
+  })
+
+  it('is deterministic', () => {
+    const options: TableQuizOptions = { types: ['multiple_choice', 'true_false'], wording: DEFAULT_TABLE_WORDING }
+    expect(buildTableQuestions(table, mapping, options)).toEqual(buildTableQuestions(table, mapping, options))
+  })
+
+  it('leaves multi-select out, since each row has a single answer', () => {
+    const mixed = buildTableQuestions(table, mapping, { types: ['multi_select', 'fill_blank'], wording: DEFAULT_TABLE_WORDING })
+    expect(mixed.map(question => question.type)).toEqual(['fill_blank', 'fill_blank', 'fill_blank', 'fill_blank'])
+
+    const only = buildTableQuestions(table, mapping, { types: ['multi_select'], wording: DEFAULT_TABLE_WORDING })
+    expect(only.every(question => question.type === 'multiple_choice')).toBe(true)
+  })
+})
@@ -0,0 +1,264 @@
+import { blink } from '@/blink/client'
+import { renderPromptTemplate } from '@/lib/generation'
+import type { Question, QuestionType } from '@/types'
+
+/** A CSV or TSV file; the first row holds the column names. */
+export interface DataTable {
+  headers: string[]
+  rows: string[][]
+}
+
+// Column indices; the prompt is what the question shows, the answer what it asks for
+export interface ColumnMapping {
+  prompt: number
+  answer: number
+  explanation: number | null
+}
+
+export interface TableQuizOptions {
+  types: QuestionType[]
+  // Question text with {{prompt}} for the prompt cell and {{column}} for the answer column's name
+  wording: string
+}
+
+export const DEFAULT_TABLE_WORDING = 'What is the {{column}} of "{{prompt}}"?'
+
+// Every row has a single answer, so a table cannot make multi-select questions
+export const TABLE_QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'true_false', 'fill_blank', 'numeric', 'short_answer']
+
+// Questions sent to the AI per polishing request
+const POLISH_BATCH_SIZE = 20
+
+// Wrong options per multiple choice question, making four options like generated quizzes
+const DISTRACTOR_COUNT = 3
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split('\n').find(line => line.trim()) ?? ''
+  if (firstLine.includes('\t')) return '\t'
+  const commas = firstLine.split(',').length
+  const semicolons = firstLine.split(';').length
+  return semicolons > commas ? ';' : ','
+}
+
+/**
+ * Parses comma, semicolon or tab separated text with quoted fields. Every
+ * row is kept; blank rows are skipped and short rows padded to the header.
+ */
+export function parseDelimited(text: string): DataTable {
+  const content = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const delimiter = detectDelimiter(content)
+
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = ''
+      quoted = true
+    } else if (char === delimiter) {
+      record.push(field.trim())
+      field = ''
+    } else if (char === '\n') {
+      record.push(field.trim())
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  record.push(field.trim())
+  records.push(record)
+
+  const [headerRow = [], ...rows] = records.filter(row => row.some(cell => cell !== ''))
+  // Not Math.max(...rows): spreading one argument per row overflows the stack on large files
+  const width = rows.reduce((widest, row) => Math.max(widest, row.length), headerRow.length)
+  const headers = Array.from({ length: width }, (_, index) => headerRow[index] || `Column ${index + 1}`)
+
+  return { headers, rows: rows.map(row => headers.map((_, index) => row[index] ?? '')) }
+}
+
+// Small seeded generator, so the same table and settings always build the same quiz
+function seededRandom(seed: string): () => number {
+  let state = 2166136261
+  for (let i = 0; i < seed.length; i++) state = Math.imul(state ^ seed.charCodeAt(i), 16777619)
+  return () => {
+    state = (state + 0x6D2B79F5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+const normalize = (text: string) => text.trim().toLowerCase()
+
+const isNumber = (text: string) => text.trim() !== '' && Number.isFinite(Number(text.replace(/,/g, '')))
+
+/**
+ * Answers from other rows to offer as wrong options. Answers of rows with
+ * the same prompt are left out, since they are correct too, and answers of
+ * the same kind (numbers for numbers) are preferred.
+ */
+function pickDistractors(answer: string, excluded: Set<string>, pool: string[], random: () => number): string[] {
+  const candidates = shuffle(pool.filter(option => !excluded.has(normalize(option))), random)
+  const sameKind = candidates.filter(option => isNumber(option) === isNumber(answer))
+  const otherKind = candidates.filter(option => isNumber(option) !== isNumber(answer))
+  return [...sameKind, ...otherKind].slice(0, DISTRACTOR_COUNT)
+}
+
+/**
+ * Builds one question per row without the AI: the prompt cell is asked
+ * about and the answer cell is the answer, with wrong options drawn from the
+ * answers of other rows. Question types rotate through the `types` a table
+ * supports (see TABLE_QUESTION_TYPES), multiple choice when there are none;
+ * a row that cannot make its type (too few other answers, or a non-numeric
+ * answer for a numeric question) falls back to a short answer question.
+ */
+export function buildTableQuestions(table: DataTable, mapping: ColumnMapping, options: TableQuizOptions): Question[] {
+  const column = table.headers[mapping.answer].toLowerCase()
+  const entries = table.rows
+    .map(row => ({
+      prompt: row[mapping.prompt] ?? '',
+      answer: row[mapping.answer] ?? '',
+      explanation: mapping.explanation === null ? '' : row[mapping.explanation] ?? ''
+    }))
+    .filter(entry => entry.prompt && entry.answer)
+
+  const pool = [...new Map(entries.map(entry => [normalize(entry.answer), entry.answer])).values()]
+  const answersByPrompt = new Map<string, Set<string>>()
+  entries.forEach(entry => {
+    const answers = answersByPrompt.get(normalize(entry.prompt)) ?? new Set<string>()
+    answersByPrompt.set(normalize(entry.prompt), answers.add(normalize(entry.answer)))
+  })
+
+  const random = seededRandom(JSON.stringify([table.headers, mapping, options]) + entries.length)
+  const supported = options.types.filter(type => TABLE_QUESTION_TYPES.includes(type))
+  const types: QuestionType[] = supported.length > 0 ? supported : ['multiple_choice']
+  const seen = new Set<string>()
+
+  return entries.flatMap((entry): Question[] => {
+    // Repeated rows would make identical questions
+    const key = `${normalize(entry.prompt)}\u0000${normalize(entry.answer)}`
+    if (seen.has(key)) return []
+    seen.add(key)
+
+    const question = renderPromptTemplate(options.wording, { prompt: entry.prompt, column }) || `${entry.prompt}?`
+    const explanation = entry.explanation || `The ${column} of "${entry.prompt}" is "${entry.answer}".`
+    const distractors = pickDistractors(entry.answer, answersByPrompt.get(normalize(entry.prompt))!, pool, random)
+    const base = { id: `q_${seen.size}`, explanation, level: 'recall' as const }
+
+    const type = types[(seen.size - 1) % types.length]
+    if (type === 'multiple_choice' && distractors.length > 0) {
+      const choices = shuffle([entry.answer, ...distractors], random)
+      return [{ ...base, type: 'multiple_choice', question, options: choices, correctAnswer: choices.indexOf(entry.answer) }]
+    }
+    if (type === 'true_false') {
+      const shown = distractors.length > 0 && random() < 0.5 ? distractors[0] : entry.answer
+      return [{
+        ...base,
+        type: 'true_false',
+        question: `The ${column} of "${entry.prompt}" is "${shown}".`,
+        correctAnswer: shown === entry.answer
+      }]
+    }
+    if (type === 'numeric' && isNumber(entry.answer)) {
+      return [{ ...base, type: 'numeric', question, correctAnswer: Number(entry.answer.replace(/,/g, '')), tolerance: 0 }]
+    }
+    if (type === 'fill_blank') {
+      return [{ ...base, type: 'fill_blank', question: `The ${column} of "${entry.prompt}" is ___.`, acceptedAnswers: [entry.answer] }]
+    }
+    return [{ ...base, type: 'short_answer', question, acceptedAnswers: [entry.answer] }]
+  })
+}
+
+export interface PolishOptions {
+  // What the table is about, e.g. its file name
+  subject: string
+  signal?: AbortSignal
+  // Called with the questions handled so far after each batch
+  onQuestions?: (questions: Question[]) => void
+}
+
+/**
+ * Has the AI reword the built questions and explanations so they read
+ * naturally. Options and answers are never sent back, so the answer key
+ * cannot change; a batch that fails keeps its original wording.
+ */
+export async function polishTableQuestions(questions: Question[], options: PolishOptions): Promise<Question[]> {
+  const { subject, signal, onQuestions } = options
+  const polished = [...questions]
+
+  for (let start = 0; start < questions.length && !signal?.aborted; start += POLISH_BATCH_SIZE) {
+    const batch = questions.slice(start, start + POLISH_BATCH_SIZE)
+    try {
+      const { object } = await blink.ai.generateObject({
+        prompt: `These quiz questions were built mechanically from a table (${subject}). Reword each question and explanation so it reads naturally.
+Keep the meaning and the language, and keep every id. Do not give away the answer, do not mention the options, and keep the "___" blank in fill-in-the-blank questions.
+
+${JSON.stringify(batch.map(question => ({
+  id: question.id,
+  type: question.type,
+  question: question.question,
+  explanation: question.explanation
+})), null, 2)}`,
+        schema: {
+          type: 'object',
+          properties: {
+            questions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  question: { type: 'string' },
+                  explanation: { type: 'string' }
+                },
+                required: ['id', 'question', 'explanation']
+              }
+            }
+          },
+          required: ['questions']
+        },
+        signal
+      })
+
+      const results: any[] = object.questions || []
+      batch.forEach((question, index) => {
+        const result = results.find(item => item?.id === question.id)
+        const text = typeof result?.question === 'string' ? result.question.trim() : ''
+        if (!text || (question.type === 'fill_blank' && !text.includes('___'))) return
+        polished[start + index] = {
+          ...question,
+          question: text,
+          explanation: typeof result.explanation === 'string' && result.explanation.trim() ? result.explanation.trim() : question.explanation
+        }
+      })
+    } catch (error) {
+      if (!signal?.aborted) console.warn('Could not polish questions, keeping their original wording:', error)
+    }
+    onQuestions?.(polished.slice(0, start + batch.length))
+  }
+
+  return polished
+}
@@ -0,0 +1,110 @@
+import { blink } from '@/blink/client'
+import { languageName } from '@/lib/presets'
+import type { Question, Quiz } from '@/types'
+
+// Questions sent to the translator per request
+const TRANSLATE_BATCH_SIZE = 15
+
+export interface TranslatedQuiz {
+  title: string
+  description?: string
+  questions: Question[]
+}
+
+// What a learner reads. Ids, answer keys, numbers, levels and objectives stay
+// untouched so attempts in either language can be compared question by question
+const translatableText = (question: Question) => ({
+  id: question.id,
+  question: question.question,
+  explanation: question.explanation,
+  ...('options' in question && { options: question.options }),
+  ...('acceptedAnswers' in question && { acceptedAnswers: question.acceptedAnswers }),
+  ...(question.type === 'numeric' && question.unit && { unit: question.unit })
+})
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== ''
+
+// Null when the translation is missing text or changed the number of options
+function applyTranslation(question: Question, translated: any): Question | null {
+  if (!translated || !isText(translated.question)) return null
+  if ('options' in question && !(Array.isArray(translated.options) && translated.options.length === question.options.length && translated.options.every(isText))) {
+    return null
+  }
+  if ('acceptedAnswers' in question && !(Array.isArray(translated.acceptedAnswers) && translated.acceptedAnswers.some(isText))) {
+    return null
+  }
+
+  return {
+    ...question,
+    question: translated.question,
+    explanation: isText(translated.explanation) ? translated.explanation : question.explanation,
+    ...('options' in question && { options: translated.options }),
+    ...('acceptedAnswers' in question && { acceptedAnswers: translated.acceptedAnswers.filter(isText) }),
+    ...(question.type === 'numeric' && question.unit && { unit: isText(translated.unit) ? translated.unit : question.unit })
+  } as Question
+}
+
+/**
+ * Translates a quiz's title, description and questions into `language`,
+ * keeping every question id, option order and answer key. Fails if any
+ * question comes back incomplete rather than saving a half-translated quiz.
+ */
+export async function translateQuiz(quiz: Quiz, language: string): Promise<TranslatedQuiz> {
+  const target = languageName(language)
+  let title = quiz.title
+  let description = quiz.description
+  const questions: Question[] = []
+
+  for (let start = 0; start < quiz.questions.length; start += TRANSLATE_BATCH_SIZE) {
+    const batch = quiz.questions.slice(start, start + TRANSLATE_BATCH_SIZE)
+    const withHeader = start === 0
+
+    const { object } = await blink.ai.generateObject({
+      prompt: `Translate this quiz from ${languageName(quiz.language)} into ${target}.
+Keep every id unchanged and keep options in the same order with the same number of options, so the answer key still applies. For fill-in-the-blank questions keep the "___" blank marker. Accepted answers must be what a learner would type in ${target}.
+Keep the meaning, difficulty and tone; do not add hints or fix the questions.
+
+${JSON.stringify({
+  ...(withHeader && { title: quiz.title, description: quiz.description ?? '' }),
+  questions: batch.map(translatableText)
+}, null, 2)}`,
+      schema: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          questions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                question: { type: 'string' },
+                explanation: { type: 'string' },
+                options: { type: 'array', items: { type: 'string' } },
+                acceptedAnswers: { type: 'array', items: { type: 'string' } },
+                unit: { type: 'string' }
+              },
+              required: ['id', 'question']
+            }
+          }
+        },
+        required: ['questions']
+      }
+    })
+
+    if (withHeader) {
+      title = isText(object.title) ? object.title : title
+      description = isText(object.description) ? object.description : description
+    }
+
+    const results: any[] = object.questions || []
+    batch.forEach((question, index) => {
+      const translated = applyTranslation(question, results.find(result => result?.id === question.id))
+      if (!translated) throw new Error(`Question ${start + index + 1} could not be translated`)
+      questions.push(translated)
+    })
+  }
+
+  return { title, description, questions }
+}
@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { extractWebPage, normalizeUrl, readableText } from './webPages'
+
+const { extractFromUrl } = vi.hoisted(() => ({ extractFromUrl: vi.fn() }))
+vi.mock('@/blink/client', () => ({ blink: { data: { extractFromUrl } } }))
+
+const ARTICLE = `<!doctype html>
+<html>
+  <head><title>Photosynthesis</title><style>p { color: red }</style></head>
+  <body>
+    <nav><a href="/">Home</a> <a href="/about">About</a></nav>
+    <article>
+      <h1>Photosynthesis</h1>
+      <p>Plants turn   light into
+        chemical energy.</p>
+      <h2>Stages</h2>
+      <ul><li>Light reactions</li><li><p>The Calvin cycle</p></li></ul>
+      <script>trackVisit()</script>
+    </article>
+    <footer>Copyright</footer>
+  </body>
+</html>`
+
+// Stands in for a web site so extraction can be tested without the network
+let server: Server
+let origin: string
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    if (request.url === '/article') {
+      response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(ARTICLE)
+    } else if (request.url === '/notes.txt') {
+      response.writeHead(200, { 'Content-Type': 'text/plain' }).end('Chlorophyll\r\n\r\n\r\n\r\nabsorbs light.  \n')
+    } else {
+      response.writeHead(404, 'Not Found').end()
+    }
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe('normalizeUrl', () => {
+  it('adds https to addresses without a scheme and rejects other schemes', () => {
+    expect(normalizeUrl(' example.com/page ')).toBe('https://example.com/page')
+    expect(() => normalizeUrl('ftp://example.com')).toThrow('Only http and https')
+  })
+})
+
+describe('readableText', () => {
+  it('keeps the article text with Markdown headings and leaves out page chrome', () => {
+    const { title, text } = readableText(ARTICLE)
+
+    expect(title).toBe('Photosynthesis')
+    expect(text).toBe('# Photosynthesis\n\nPlants turn light into chemical energy.\n\n## Stages\n\n- Light reactions\n\nThe Calvin cycle')
+  })
+})
+
+describe('extractWebPage', () => {
+  // Reads the page from the test server the way the remote extraction service would
+  beforeEach(() => {
+    extractFromUrl.mockReset().mockImplementation(async (url: string) => {
+      const response = await fetch(url)
+      if (!response.ok) throw new Error(`Extraction failed with ${response.status}`)
+      return readableText(await response.text()).text
+    })
+  })
+
+  it('extracts the text with the Blink extractor and titles it from the first heading', async () => {
+    const page = await extractWebPage(`${origin}/article`)
+
+    expect(extractFromUrl).toHaveBeenCalledWith(`${origin}/article`)
+    expect(page).toEqual({
+      url: `${origin}/article`,
+      title: 'Photosynthesis',
+      text: readableText(ARTICLE).text
+    })
+  })
+
+  it('joins extracted chunks and adds https to the address', async () => {
+    extractFromUrl.mockResolvedValueOnce(['# Leaves', 'Leaves hold chlorophyll.'])
+
+    const page = await extractWebPage('example.com/leaves')
+
+    expect(extractFromUrl).toHaveBeenCalledWith('https://example.com/leaves')
+    expect(page).toEqual({ url: 'https://example.com/leaves', title: 'Leaves', text: '# Leaves\n\nLeaves hold chlorophyll.' })
+  })
+
+  it('fetches the page directly when the extractor fails', async () => {
+    extractFromUrl.mockRejectedValue(new Error('Extractor unavailable'))
+
+    expect(await extractWebPage(`${origin}/article`)).toMatchObject({ title: 'Photosynthesis', text: readableText(ARTICLE).text })
+
+    const notes = await extractWebPage(`${origin}/notes.txt`)
+    expect(notes.text).toBe('Chlorophyll\n\nabsorbs light.')
+    expect(notes.title).toBe('Chlorophyll')
+  })
+
+  it('reports the extractor error when the page cannot be fetched either', async () => {
+    await expect(extractWebPage(`${origin}/missing`)).rejects.toThrow('Extraction failed with 404')
+  })
+})
@@ -0,0 +1,89 @@
+import { blink } from '@/blink/client'
+
+export interface WebPage {
+  url: string
+  title: string
+  text: string
+}
+
+const SKIPPED_ELEMENTS = 'script, style, noscript, template, svg, iframe, nav, header, footer, aside, form'
+const TEXT_BLOCKS = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, dt, dd, th, td, figcaption'
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+const tidy = (text: string) => text.replace(/\r\n?/g, '\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim()
+
+/** Adds https:// when the scheme is left out; anything but http(s) is rejected. */
+export function normalizeUrl(input: string): string {
+  const trimmed = input.trim()
+  const url = new URL(/^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`)
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https addresses can be used')
+  }
+  return url.toString()
+}
+
+/**
+ * The readable text of an HTML page: the article or main content without
+ * navigation, scripts and forms. Headings become Markdown headings so long
+ * pages are split along their sections.
+ */
+export function readableText(html: string): { title: string; text: string } {
+  const page = new DOMParser().parseFromString(html, 'text/html')
+  page.querySelectorAll(SKIPPED_ELEMENTS).forEach(element => element.remove())
+  const root = page.querySelector('article') ?? page.querySelector('main') ?? page.body
+
+  // Blocks containing other blocks (a list item with paragraphs) are read through their children
+  const blocks = [...root.querySelectorAll(TEXT_BLOCKS)].filter(block => !block.querySelector(TEXT_BLOCKS))
+  const lines = blocks
+    .map(block => {
+      const text = collapse(block.textContent ?? '')
+      if (!text) return ''
+      const heading = block.tagName.match(/^H([1-6])$/)
+      if (heading) return `${'#'.repeat(Number(heading[1]))} ${text}`
+      return block.tagName === 'LI' ? `- ${text}` : text
+    })
+    .filter(Boolean)
+
+  const title = collapse(page.title || page.querySelector('h1')?.textContent || '')
+  return { title, text: lines.length > 0 ? lines.join('\n\n') : tidy(root.textContent ?? '') }
+}
+
+// Works for sites that allow cross-origin requests
+async function fetchDirectly(url: string): Promise<{ title: string; text: string }> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`The page returned ${response.status} ${response.statusText}`)
+
+  const body = await response.text()
+  return (response.headers.get('content-type') ?? '').includes('html') || /^\s*<(!doctype|html)/i.test(body)
+    ? readableText(body)
+    : { title: '', text: tidy(body) }
+}
+
+// Extracted text has no title of its own; a short first line usually is one
+const titleOf = (text: string, url: string) => {
+  const firstLine = text.split('\n').find(line => line.trim())?.replace(/^#+\s*/, '').trim() ?? ''
+  return firstLine && firstLine.length <= 100 ? firstLine : new URL(url).hostname
+}
+
+/**
+ * Fetches a web page and extracts its readable text with the Blink extractor.
+ * Pages the extractor fails on are fetched from the browser instead.
+ */
+export async function extractWebPage(input: string): Promise<WebPage> {
+  const url = normalizeUrl(input)
+
+  try {
+    const extracted = await blink.data.extractFromUrl(url)
+    const text = tidy(Array.isArray(extracted) ? extracted.join('\n\n') : extracted)
+    return { url, title: titleOf(text, url), text }
+  } catch (extractError) {
+    console.warn('Could not extract the page, fetching it directly instead:', extractError)
+    try {
+      const page = await fetchDirectly(url)
+      return { url, title: page.title || titleOf(page.text, url), text: page.text }
+    } catch {
+      throw extractError
+    }
+  }
+}
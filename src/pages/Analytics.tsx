@@ -6,7 +6,9 @@ import {
   BookOpen,
   Trophy,
   Calendar,
-  BarChart3
+  BarChart3,
+  GraduationCap,
+  Repeat
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
@@ -24,11 +26,14 @@ import {
   Pie,
   Cell
 } from 'recharts'
-import { blink } from '@/blink/client'
+import { attemptRepository, auth, quizRepository } from '@/lib/data'
+import { correctCount, isCompletedAttempt, isExamAttempt, isRetryAttempt, questionBreakdown } from '@/lib/attempts'
+import { COGNITIVE_LEVEL_LABELS, COGNITIVE_LEVELS } from '@/lib/questions'
 import { Quiz, QuizAttempt } from '@/types'
 
 export function Analytics() {
   const [attempts, setAttempts] = useState<(QuizAttempt & { quiz?: Quiz })[]>([])
+  const [retryAttempts, setRetryAttempts] = useState<QuizAttempt[]>([])
   const [loading, setLoading] = useState(true)
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d' | 'all'>('30d')
   const [user, setUser] = useState<any>(null)
@@ -39,32 +44,21 @@ export function Analytics() {
     try {
       setLoading(true)
       
-      // Load quiz attempts
-      const attemptsData = await blink.db.quizAttempts.list({
-        where: { userId: user.id },
-        orderBy: { completedAt: 'desc' },
-        limit: 200
-      })
+      // Load quiz attempts; retries are only used to show how missed questions improved
+      const completedAttempts = (await attemptRepository.listByUser(user.id, { limit: 200 })).filter(isCompletedAttempt)
+      const attemptsData = completedAttempts.filter(isExamAttempt)
 
       // Load quiz details for each attempt
-      const quizIds = [...new Set(attemptsData.map(attempt => attempt.quizId))]
-      const quizzesData = await Promise.all(
-        quizIds.map(async (quizId) => {
-          const quiz = await blink.db.quizzes.list({
-            where: { id: quizId },
-            limit: 1
-          })
-          return quiz[0]
-        })
-      )
+      const quizzesData = await quizRepository.getMany(attemptsData.map(attempt => attempt.quizId))
 
       // Combine attempts with quiz data
       const attemptsWithQuizzes = attemptsData.map(attempt => ({
         ...attempt,
-        quiz: quizzesData.find(quiz => quiz?.id === attempt.quizId)
+        quiz: quizzesData.get(attempt.quizId)
       }))
 
       setAttempts(attemptsWithQuizzes)
+      setRetryAttempts(completedAttempts.filter(isRetryAttempt))
     } catch (error) {
       console.error('Error loading analytics:', error)
     } finally {
@@ -73,7 +67,7 @@ export function Analytics() {
   }, [user?.id])
 
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+    const unsubscribe = auth.onAuthStateChanged((state) => {
       setUser(state.user)
     })
     return unsubscribe
@@ -102,7 +96,7 @@ export function Analytics() {
       .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime())
       .map((attempt, index) => ({
         attempt: index + 1,
-        score: Number(attempt.score) || 0,
+        score: attempt.score,
         date: new Date(attempt.completedAt).toLocaleDateString()
       }))
     
@@ -116,7 +110,7 @@ export function Analytics() {
         acc[difficulty] = { count: 0, totalScore: 0 }
       }
       acc[difficulty].count++
-      acc[difficulty].totalScore += Number(attempt.score) || 0
+      acc[difficulty].totalScore += attempt.score
       return acc
     }, {} as Record<string, { count: number; totalScore: number }>)
 
@@ -134,8 +128,8 @@ export function Analytics() {
         acc[topic] = { count: 0, totalScore: 0, bestScore: 0 }
       }
       acc[topic].count++
-      acc[topic].totalScore += Number(attempt.score) || 0
-      acc[topic].bestScore = Math.max(acc[topic].bestScore, Number(attempt.score) || 0)
+      acc[topic].totalScore += attempt.score
+      acc[topic].bestScore = Math.max(acc[topic].bestScore, attempt.score)
       return acc
     }, {} as Record<string, { count: number; totalScore: number; bestScore: number }>)
 
@@ -150,6 +144,51 @@ export function Analytics() {
       .slice(0, 5)
   }
 
+  // Only questions tagged with a level or objective count; older quizzes have neither
+  const getLevelBreakdown = () => {
+    const breakdown = questionBreakdown(filteredAttempts, question => question.level)
+    return COGNITIVE_LEVELS.flatMap(level => {
+      const item = breakdown.find(entry => entry.key === level)
+      return item ? [{ level: COGNITIVE_LEVEL_LABELS[level], answered: item.answered, accuracy: item.accuracy }] : []
+    })
+  }
+
+  const getObjectivePerformance = () =>
+    questionBreakdown(filteredAttempts, question => question.objective?.trim())
+      .sort((a, b) => a.accuracy - b.accuracy || b.answered - a.answered)
+
+  // Follows each exam attempt's chain of retries to see how many missed questions were fixed
+  const getRetryProgress = () => {
+    const parents = new Map(retryAttempts.map(attempt => [attempt.id, attempt.parentAttemptId]))
+    const rootOf = (attempt: QuizAttempt) => {
+      let rootId = attempt.parentAttemptId!
+      while (parents.has(rootId)) rootId = parents.get(rootId)!
+      return rootId
+    }
+
+    return filteredAttempts
+      .map(attempt => {
+        const retries = retryAttempts
+          .filter(retry => rootOf(retry) === attempt.id)
+          .sort((a, b) => new Date(a.completedAt).getTime() - new Date(b.completedAt).getTime())
+        if (retries.length === 0) return null
+
+        const latest = retries[retries.length - 1]
+        const missed = attempt.totalQuestions - correctCount(attempt)
+        const remaining = latest.totalQuestions - correctCount(latest)
+        return {
+          id: attempt.id,
+          title: attempt.quiz?.title || 'Unknown Quiz',
+          score: attempt.score,
+          retries: retries.length,
+          missed,
+          fixed: Math.max(0, missed - remaining)
+        }
+      })
+      .filter((progress): progress is NonNullable<typeof progress> => progress !== null)
+      .slice(0, 5)
+  }
+
   const calculateStats = () => {
     if (filteredAttempts.length === 0) {
       return {
@@ -162,8 +201,8 @@ export function Analytics() {
       }
     }
     
-    const scores = filteredAttempts.map(attempt => Number(attempt.score) || 0)
-    const times = filteredAttempts.map(attempt => Number(attempt.timeSpent) || 0)
+    const scores = filteredAttempts.map(attempt => attempt.score)
+    const times = filteredAttempts.map(attempt => attempt.timeSpent)
     
     const totalAttempts = filteredAttempts.length
     const averageScore = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
@@ -188,6 +227,9 @@ export function Analytics() {
   const scoreOverTime = getScoreOverTime()
   const difficultyBreakdown = getDifficultyBreakdown()
   const topicPerformance = getTopicPerformance()
+  const retryProgress = getRetryProgress()
+  const levelBreakdown = getLevelBreakdown()
+  const objectivePerformance = getObjectivePerformance()
 
   const COLORS = ['#6366F1', '#F59E0B', '#EF4444', '#10B981', '#8B5CF6']
 
@@ -431,6 +473,96 @@ export function Analytics() {
               </ResponsiveContainer>
             </CardContent>
           </Card>
+
+          {/* Cognitive Level Breakdown */}
+          {levelBreakdown.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Performance by Cognitive Level</CardTitle>
+                <CardDescription>Share of questions answered correctly at each level</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={levelBreakdown}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="level" />
+                    <YAxis domain={[0, 100]} />
+                    <Tooltip 
+                      formatter={(value, name) => [
+                        name === 'accuracy' ? `${value}%` : value,
+                        name === 'accuracy' ? 'Correct' : 'Answered'
+                      ]}
+                    />
+                    <Bar dataKey="accuracy" fill="#10B981" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Learning Objectives */}
+          {objectivePerformance.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Learning Objectives</CardTitle>
+                <CardDescription>Objectives you answer least accurately come first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {objectivePerformance.slice(0, 8).map(objective => (
+                    <div key={objective.key} className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center space-x-3 min-w-0">
+                        <div className="w-8 h-8 rounded-full bg-indigo-100 flex items-center justify-center shrink-0">
+                          <GraduationCap className="h-4 w-4 text-indigo-600" />
+                        </div>
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-900 truncate">{objective.key}</div>
+                          <div className="text-sm text-gray-600">{objective.correct} of {objective.answered} answers correct</div>
+                        </div>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <div className="font-medium text-gray-900">{objective.accuracy}%</div>
+                        <div className="text-sm text-gray-600">correct</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Retry Progress */}
+          {retryProgress.length > 0 && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Retry Progress</CardTitle>
+                <CardDescription>Missed questions you fixed by retrying them</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {retryProgress.map(progress => (
+                    <div key={progress.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div className="flex items-center space-x-3">
+                        <div className="w-8 h-8 rounded-full bg-indigo-100 flex items-center justify-center">
+                          <Repeat className="h-4 w-4 text-indigo-600" />
+                        </div>
+                        <div>
+                          <div className="font-medium text-gray-900">{progress.title}</div>
+                          <div className="text-sm text-gray-600">
+                            Scored {progress.score}% · {progress.retries} {progress.retries === 1 ? 'retry' : 'retries'}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-medium text-gray-900">{progress.fixed} / {progress.missed}</div>
+                        <div className="text-sm text-gray-600">missed fixed</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
       )}
     </div>
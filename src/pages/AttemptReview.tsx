@@ -0,0 +1,185 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { ArrowLeft, Calendar, CheckCircle, Clock, Repeat, RotateCcw, XCircle } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { QuestionReview } from '@/components/quiz/QuestionReview'
+import { attemptQuestions, missedQuestions } from '@/lib/attempts'
+import { attemptRepository, quizRepository } from '@/lib/data'
+import type { Quiz, QuizAttempt } from '@/types'
+
+export function AttemptReview() {
+  const { attemptId } = useParams()
+  const navigate = useNavigate()
+
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null)
+  const [quiz, setQuiz] = useState<Quiz | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const loadAttempt = useCallback(async () => {
+    if (!attemptId) return
+
+    try {
+      setLoading(true)
+      const attemptItem = await attemptRepository.get(attemptId)
+      if (!attemptItem) return
+
+      setAttempt(attemptItem)
+      setQuiz(await quizRepository.get(attemptItem.quizId))
+    } catch (error) {
+      console.error('Error loading attempt:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [attemptId])
+
+  useEffect(() => {
+    loadAttempt()
+  }, [loadAttempt])
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60)
+    const secs = seconds % 60
+    return `${mins}m ${secs}s`
+  }
+
+  const getDifficultyColor = (difficulty: string) => {
+    switch (difficulty) {
+      case 'easy': return 'bg-green-100 text-green-800'
+      case 'medium': return 'bg-yellow-100 text-yellow-800'
+      case 'hard': return 'bg-red-100 text-red-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Loading Attempt...</h2>
+          <p className="text-gray-600">Please wait while we load your answers</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!attempt || !quiz) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Attempt Not Found</h2>
+        <p className="text-gray-600 mb-6">
+          {attempt ? 'The quiz for this attempt has been removed.' : "The attempt you're looking for doesn't exist."}
+        </p>
+        <Button onClick={() => navigate('/history')}>
+          Back to History
+        </Button>
+      </div>
+    )
+  }
+
+  const score = attempt.score
+  const questions = attemptQuestions(quiz.questions, attempt)
+  const missedCount = missedQuestions(questions, attempt.answers).length
+  const correctAnswers = questions.length - missedCount
+  const editedSinceAttempt = new Date(quiz.updatedAt).getTime() > new Date(attempt.completedAt).getTime()
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <Button variant="outline" onClick={() => navigate('/history')}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to History
+      </Button>
+
+      <Card className="text-center">
+        <CardHeader>
+          <div className="mx-auto mb-4">
+            {score >= 80 ? (
+              <CheckCircle className="h-16 w-16 text-green-500" />
+            ) : score >= 60 ? (
+              <Clock className="h-16 w-16 text-yellow-500" />
+            ) : (
+              <XCircle className="h-16 w-16 text-red-500" />
+            )}
+          </div>
+          <CardTitle className="text-3xl flex items-center justify-center gap-2">
+            {quiz.title}
+            <Badge className={getDifficultyColor(quiz.difficulty)}>
+              {quiz.difficulty}
+            </Badge>
+            {attempt.mode === 'practice' && (
+              <Badge variant="outline">Practice</Badge>
+            )}
+            {attempt.parentAttemptId && (
+              <Badge variant="outline">Retry</Badge>
+            )}
+          </CardTitle>
+          <CardDescription className="flex items-center justify-center gap-4">
+            <span className="flex items-center">
+              <Calendar className="h-4 w-4 mr-1" />
+              {new Date(attempt.completedAt).toLocaleString()}
+            </span>
+            <span className="flex items-center">
+              <Clock className="h-4 w-4 mr-1" />
+              {formatTime(attempt.timeSpent)}
+            </span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="text-center">
+              <div className="text-3xl font-bold text-indigo-600">{score}%</div>
+              <div className="text-sm text-gray-600">Final Score</div>
+            </div>
+            <div className="text-center">
+              <div className="text-3xl font-bold text-green-600">{correctAnswers}</div>
+              <div className="text-sm text-gray-600">Correct Answers</div>
+            </div>
+            <div className="text-center">
+              <div className="text-3xl font-bold text-gray-600">{questions.length}</div>
+              <div className="text-sm text-gray-600">Total Questions</div>
+            </div>
+          </div>
+
+          {editedSinceAttempt && (
+            <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              This quiz was edited after the attempt, so the review below reflects the current questions.
+            </p>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            {attempt.parentAttemptId && (
+              <Button variant="outline" onClick={() => navigate(`/attempt/${attempt.parentAttemptId}`)}>
+                View Original Attempt
+              </Button>
+            )}
+            {missedCount > 0 && (
+              <Button variant="outline" onClick={() => navigate(`/quiz/${quiz.id}?retry=${attempt.id}`)}>
+                <Repeat className="h-4 w-4 mr-2" />
+                Retry {missedCount} Missed
+              </Button>
+            )}
+            <Button onClick={() => navigate(`/quiz/${quiz.id}`)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retake Quiz
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-4">
+        <h3 className="text-xl font-semibold text-gray-900">Question Review</h3>
+        {questions.map((question, index) => (
+          <QuestionReview
+            key={question.id}
+            question={question}
+            index={index}
+            answer={attempt.answers[question.id]}
+            quiz={quiz}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
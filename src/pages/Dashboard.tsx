@@ -11,7 +11,8 @@ import {
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { blink } from '@/blink/client'
+import { attemptRepository, auth, quizRepository } from '@/lib/data'
+import { isCompletedAttempt, isExamAttempt } from '@/lib/attempts'
 import { QuizStats } from '@/types'
 
 export function Dashboard() {
@@ -26,26 +27,23 @@ export function Dashboard() {
       setLoading(true)
       
       // Load quiz attempts for stats
-      const attempts = await blink.db.quizAttempts.list({
-        where: { userId: user.id },
-        orderBy: { completedAt: 'desc' },
-        limit: 100
-      })
+      const attempts = (await attemptRepository.listByUser(user.id, { limit: 100 })).filter(isCompletedAttempt)
 
       // Load total quizzes created
-      const quizzes = await blink.db.quizzes.list({
-        where: { userId: user.id }
-      })
+      const quizzes = await quizRepository.listByUser(user.id)
+      const recentActivity = attempts.slice(0, 5)
+      const recentQuizzes = await quizRepository.getMany(recentActivity.map(attempt => attempt.quizId))
 
-      // Calculate stats
+      // Calculate stats (practice runs are not scored like exams)
+      const examAttempts = attempts.filter(isExamAttempt)
       const totalAttempts = attempts.length
-      const averageScore = totalAttempts > 0 
-        ? attempts.reduce((sum, attempt) => sum + (Number(attempt.score) || 0), 0) / totalAttempts 
+      const averageScore = examAttempts.length > 0 
+        ? examAttempts.reduce((sum, attempt) => sum + attempt.score, 0) / examAttempts.length 
         : 0
-      const bestScore = totalAttempts > 0 
-        ? Math.max(...attempts.map(attempt => Number(attempt.score) || 0))
+      const bestScore = examAttempts.length > 0 
+        ? Math.max(...examAttempts.map(attempt => attempt.score))
         : 0
-      const totalTimeSpent = attempts.reduce((sum, attempt) => sum + (Number(attempt.timeSpent) || 0), 0)
+      const totalTimeSpent = attempts.reduce((sum, attempt) => sum + attempt.timeSpent, 0)
 
       setStats({
         totalQuizzes: quizzes.length,
@@ -53,7 +51,7 @@ export function Dashboard() {
         averageScore: Math.round(averageScore),
         bestScore,
         totalTimeSpent,
-        recentActivity: attempts.slice(0, 5)
+        recentActivity: recentActivity.map(attempt => ({ ...attempt, quiz: recentQuizzes.get(attempt.quizId) }))
       })
     } catch (error) {
       console.error('Error loading stats:', error)
@@ -63,7 +61,7 @@ export function Dashboard() {
   }, [user?.id])
 
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+    const unsubscribe = auth.onAuthStateChanged((state) => {
       setUser(state.user)
     })
     return unsubscribe
@@ -235,14 +233,19 @@ export function Dashboard() {
           ) : stats?.recentActivity && stats.recentActivity.length > 0 ? (
             <div className="space-y-4">
               {stats.recentActivity.map((attempt) => (
-                <div key={attempt.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <Link
+                  key={attempt.id}
+                  to={`/attempt/${attempt.id}`}
+                  className="flex items-center justify-between p-4 border rounded-lg hover:bg-gray-50 transition-colors"
+                >
                   <div className="flex items-center space-x-4">
                     <div className="p-2 bg-indigo-100 rounded-lg">
                       <BookOpen className="h-5 w-5 text-indigo-600" />
                     </div>
                     <div>
-                      <p className="font-medium text-gray-900">Quiz Attempt</p>
+                      <p className="font-medium text-gray-900">{attempt.quiz?.title || 'Quiz Attempt'}</p>
                       <p className="text-sm text-gray-600">
+                        {attempt.parentAttemptId ? 'Missed questions retry · ' : attempt.mode === 'practice' ? 'Practice run · ' : ''}
                         Completed {new Date(attempt.completedAt).toLocaleDateString()}
                       </p>
                     </div>
@@ -250,10 +253,10 @@ export function Dashboard() {
                   <div className="text-right">
                     <p className="font-semibold text-gray-900">{attempt.score}%</p>
                     <p className="text-sm text-gray-600">
-                      {Math.floor((Number(attempt.timeSpent) || 0) / 60)}m {(Number(attempt.timeSpent) || 0) % 60}s
+                      {Math.floor(attempt.timeSpent / 60)}m {attempt.timeSpent % 60}s
                     </p>
                   </div>
-                </div>
+                </Link>
               ))}
             </div>
           ) : (
@@ -0,0 +1,312 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Eye, FileText, Library as LibraryIcon, Loader2, Plus, Sparkles, Trash2, Upload } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { auth, libraryDocumentRepository, type LibraryDocumentSummary } from '@/lib/data'
+import { countPages, extractFileText, formatCharacters, saveToLibrary, titleFromFileName, updateLibraryText } from '@/lib/library'
+import type { LibraryDocument } from '@/types'
+
+export function Library() {
+  const navigate = useNavigate()
+  const [user, setUser] = useState<any>(null)
+  const [documents, setDocuments] = useState<LibraryDocumentSummary[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // New document
+  const [file, setFile] = useState<File | null>(null)
+  const [title, setTitle] = useState('')
+  const [pastedText, setPastedText] = useState('')
+  const [adding, setAdding] = useState(false)
+
+  // Preview and trim
+  const [preview, setPreview] = useState<LibraryDocument | null>(null)
+  const [previewText, setPreviewText] = useState('')
+  const [savingPreview, setSavingPreview] = useState(false)
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((state) => {
+      setUser(state.user)
+    })
+    return unsubscribe
+  }, [])
+
+  const loadDocuments = useCallback(async () => {
+    if (!user?.id) return
+
+    try {
+      setLoading(true)
+      setDocuments(await libraryDocumentRepository.listByUser(user.id))
+    } catch (error) {
+      console.error('Error loading library:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user?.id])
+
+  useEffect(() => {
+    loadDocuments()
+  }, [loadDocuments])
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0]
+    if (!selected) return
+
+    if (selected.size > 10 * 1024 * 1024) {
+      alert('File size too large. Please select a file smaller than 10MB.')
+      return
+    }
+    setFile(selected)
+    setPastedText('')
+    if (!title.trim()) setTitle(titleFromFileName(selected.name))
+  }
+
+  const handleAdd = async () => {
+    if (!user?.id) return
+    if (!file && !pastedText.trim()) {
+      alert('Please upload a file or paste text content.')
+      return
+    }
+
+    setAdding(true)
+    try {
+      const text = file ? await extractFileText(file) : pastedText
+      if (!text.trim()) {
+        alert('No content found in the document. The file might be empty, image-based, or corrupted.')
+        return
+      }
+
+      await saveToLibrary(user.id, text, {
+        title: title.trim() || (file ? titleFromFileName(file.name) : 'Untitled document'),
+        fileName: file?.name
+      })
+      setFile(null)
+      setTitle('')
+      setPastedText('')
+      await loadDocuments()
+    } catch (error) {
+      console.error('Error adding document to library:', error)
+      alert(`Failed to add document: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const openPreview = async (id: string) => {
+    try {
+      const document = await libraryDocumentRepository.get(id)
+      if (!document) {
+        alert('This document no longer exists.')
+        await loadDocuments()
+        return
+      }
+      setPreview(document)
+      setPreviewText(document.text)
+    } catch (error) {
+      console.error('Error loading document:', error)
+      alert('Failed to open the document. Please try again.')
+    }
+  }
+
+  const handleSavePreview = async () => {
+    if (!preview) return
+    if (!previewText.trim()) {
+      alert('The document cannot be empty.')
+      return
+    }
+
+    setSavingPreview(true)
+    try {
+      await updateLibraryText(preview.id, previewText)
+      setPreview(null)
+      await loadDocuments()
+    } catch (error) {
+      console.error('Error saving document:', error)
+      alert(`Failed to save document: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    } finally {
+      setSavingPreview(false)
+    }
+  }
+
+  const handleDelete = async (document: LibraryDocumentSummary) => {
+    if (!confirm(`Remove "${document.title}" from your library? Quizzes generated from it are kept.`)) return
+
+    try {
+      await libraryDocumentRepository.delete(document.id)
+      setDocuments(prev => prev.filter(item => item.id !== document.id))
+    } catch (error) {
+      console.error('Error deleting document:', error)
+      alert('Failed to delete the document. Please try again.')
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Document Library</h1>
+        <p className="text-gray-600 mt-2">
+          Save extracted document text once and generate as many quizzes from it as you like
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5 text-indigo-600" />
+            Add Document
+          </CardTitle>
+          <CardDescription>
+            Upload a file or paste text; only the extracted text is kept
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="library-title">Title</Label>
+            <Input
+              id="library-title"
+              placeholder="e.g., Biology Chapter 4"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-gray-400 transition-colors">
+            <input
+              id="library-upload"
+              type="file"
+              accept=".pdf,.doc,.docx,.txt,.rtf,.md"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <label htmlFor="library-upload" className="cursor-pointer">
+              <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+              <p className="text-sm text-gray-600">
+                {file ? file.name : 'Click to upload a document'}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                PDF, DOC, DOCX, TXT, RTF, MD files supported
+              </p>
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="library-text">Or Paste Text Content</Label>
+            <Textarea
+              id="library-text"
+              placeholder="Paste your text content here..."
+              value={pastedText}
+              onChange={(e) => {
+                setPastedText(e.target.value)
+                setFile(null)
+              }}
+              rows={5}
+            />
+          </div>
+
+          <Button onClick={handleAdd} disabled={adding || (!file && !pastedText.trim())} className="w-full">
+            {adding ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Extracting Text...
+              </>
+            ) : (
+              <>
+                <LibraryIcon className="h-4 w-4 mr-2" />
+                Add to Library
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Documents</CardTitle>
+          <CardDescription>
+            {documents.length} document{documents.length === 1 ? '' : 's'} saved
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-200 rounded-lg animate-pulse" />
+              ))}
+            </div>
+          ) : documents.length > 0 ? (
+            <div className="space-y-3">
+              {documents.map((document) => (
+                <div key={document.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4 border rounded-lg">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="p-2 bg-indigo-100 rounded-lg shrink-0">
+                      <FileText className="h-5 w-5 text-indigo-600" />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{document.title}</p>
+                      <p className="text-sm text-gray-600">
+                        {document.pageCount} page{document.pageCount === 1 ? '' : 's'} · {formatCharacters(document.size)} · Added {new Date(document.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => openPreview(document.id)}>
+                      <Eye className="h-4 w-4 mr-2" />
+                      Preview
+                    </Button>
+                    <Button size="sm" onClick={() => navigate(`/generate?library=${document.id}`)}>
+                      <Sparkles className="h-4 w-4 mr-2" />
+                      Use for Quiz
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleDelete(document)} aria-label={`Delete ${document.title}`}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <LibraryIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">Your library is empty</h3>
+              <p className="text-gray-600">Add a document above to reuse it across quizzes.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.title}</DialogTitle>
+            <DialogDescription>
+              Delete anything the quizzes should not cover, such as front matter or an index.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={previewText}
+            onChange={(e) => setPreviewText(e.target.value)}
+            rows={18}
+            className="font-mono text-xs"
+          />
+          <p className="text-xs text-gray-500">
+            {formatCharacters(previewText.length)} · {countPages(previewText)} page{countPages(previewText) === 1 ? '' : 's'}
+            {preview && previewText.length !== preview.text.length && ` (was ${formatCharacters(preview.text.length)})`}
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreview(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSavePreview} disabled={savingPreview || previewText === preview?.text}>
+              {savingPreview && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -7,7 +7,9 @@ import { Label } from '@/components/ui/label'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { blink } from '@/blink/client'
+import { GenerationPreferences } from '@/components/profile/GenerationPreferences'
+import { attemptRepository, auth, quizRepository } from '@/lib/data'
+import { isCompletedAttempt, isExamAttempt } from '@/lib/attempts'
 
 export function Profile() {
   const [user, setUser] = useState<any>(null)
@@ -24,22 +26,23 @@ export function Profile() {
   })
 
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged(async (state) => {
+    const unsubscribe = auth.onAuthStateChanged(async (state) => {
       if (state.user) {
         setUser(state.user)
         setDisplayName(state.user.displayName || '')
         
         // Load user stats
         try {
-          const [quizzes, attempts] = await Promise.all([
-            blink.db.quizzes.list({ where: { userId: state.user.id } }),
-            blink.db.quizAttempts.list({ where: { userId: state.user.id } })
+          const [quizzes, allAttempts] = await Promise.all([
+            quizRepository.listByUser(state.user.id),
+            attemptRepository.listByUser(state.user.id)
           ])
+          const attempts = allAttempts.filter(isCompletedAttempt)
 
-          const scores = attempts.map(attempt => Number(attempt.score) || 0)
+          const scores = attempts.filter(isExamAttempt).map(attempt => attempt.score)
           const averageScore = scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0
           const bestScore = scores.length > 0 ? Math.max(...scores) : 0
-          const totalTimeSpent = attempts.reduce((sum, attempt) => sum + (Number(attempt.timeSpent) || 0), 0)
+          const totalTimeSpent = attempts.reduce((sum, attempt) => sum + attempt.timeSpent, 0)
 
           setStats({
             totalQuizzes: quizzes.length,
@@ -62,10 +65,10 @@ export function Profile() {
     if (!user) return
 
     try {
-      await blink.auth.updateMe({ displayName })
+      await auth.updateMe({ displayName })
       setEditing(false)
       // Refresh user data
-      const updatedUser = await blink.auth.me()
+      const updatedUser = await auth.me()
       setUser(updatedUser)
     } catch (error) {
       console.error('Error updating profile:', error)
@@ -349,6 +352,8 @@ export function Profile() {
             </CardContent>
           </Card>
 
+          <GenerationPreferences userId={user.id} />
+
           {/* Account Actions */}
           <Card>
             <CardHeader>
@@ -374,7 +379,7 @@ export function Profile() {
 
               <Button 
                 variant="outline" 
-                onClick={() => blink.auth.logout()}
+                onClick={() => auth.logout()}
                 className="w-full"
               >
                 Sign Out
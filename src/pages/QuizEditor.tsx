@@ -0,0 +1,562 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { ArrowLeft, Clock, ExternalLink, FileText, Globe, Loader2, Plus, Save, ShieldCheck, Sparkles, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { QuestionEditor } from '@/components/quiz/QuestionEditor'
+import { QuizTranslations } from '@/components/quiz/QuizTranslations'
+import { SortableItem, SortableList } from '@/components/quiz/SortableList'
+import { loadLocalProgress, saveLocalProgress } from '@/lib/attempts'
+import { attemptRepository, auth, quizRepository, reviewCardRepository } from '@/lib/data'
+import { generateMoreQuestions, regenerateQuestion, type QuizContext } from '@/lib/generation'
+import { checkQuizQuality, type QualityFlag } from '@/lib/quality'
+import { createBlankQuestion, validateQuestion } from '@/lib/questions'
+import { deleteQuiz, formatFileSize } from '@/lib/sourceDocuments'
+import {
+  buildOptionRemap,
+  cleanQuestion,
+  fromDraft,
+  remapAnswers,
+  remapTranslatedOptions,
+  toDraft,
+  type DraftQuestion,
+  type OptionRemap
+} from '@/lib/questionDrafts'
+import type { Question, Quiz, QuizMode } from '@/types'
+
+// Rewrites stored answers after options were moved or removed, so reviews and
+// resumed attempts keep pointing at the option the learner actually picked.
+// Translations share the option order, so their options and answers move too
+const migrateAttemptAnswers = async (quiz: Quiz, edited: Question[], remap: OptionRemap) => {
+  const translations = (await quizRepository.listTranslations(quiz.translationOf ?? quiz.id))
+    .filter(version => version.id !== quiz.id)
+  await Promise.all(translations.map(version =>
+    quizRepository.update(version.id, { questions: remapTranslatedOptions(version.questions, edited, remap) })
+  ))
+
+  await Promise.all([quiz, ...translations].map(async version => {
+    const attempts = await attemptRepository.listByQuiz(version.id)
+    await Promise.all(attempts.map(attempt =>
+      attemptRepository.update(attempt.id, { answers: remapAnswers(attempt.answers, remap) })
+    ))
+
+    const progress = loadLocalProgress(version.id)
+    if (progress) saveLocalProgress({ ...progress, answers: remapAnswers(progress.answers, remap) })
+  }))
+}
+
+export function QuizEditor() {
+  const { id } = useParams()
+  const navigate = useNavigate()
+
+  const [quiz, setQuiz] = useState<Quiz | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  const [isOwner, setIsOwner] = useState(false)
+
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium')
+  const [isTimed, setIsTimed] = useState(false)
+  const [timeLimit, setTimeLimit] = useState(30)
+  const [defaultMode, setDefaultMode] = useState<QuizMode>('exam')
+  const [questions, setQuestions] = useState<DraftQuestion[]>([])
+  const [errors, setErrors] = useState<Record<string, string[]>>({})
+  const [formError, setFormError] = useState('')
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null)
+  const [generatingMore, setGeneratingMore] = useState(false)
+  const [moreCount, setMoreCount] = useState(3)
+  const [qualityFlags, setQualityFlags] = useState<Record<string, QualityFlag[]>>({})
+  const [qualityChecked, setQualityChecked] = useState<'none' | 'verified' | 'patterns'>('none')
+  const [checkingQuality, setCheckingQuality] = useState(false)
+
+  const loadQuiz = useCallback(async () => {
+    if (!id) return
+
+    try {
+      setLoading(true)
+      const [user, parsedQuiz] = await Promise.all([
+        auth.me(),
+        quizRepository.get(id)
+      ])
+
+      if (!parsedQuiz) {
+        navigate('/generate')
+        return
+      }
+
+      setQuiz(parsedQuiz)
+      setIsOwner(parsedQuiz.userId === user.id)
+      setTitle(parsedQuiz.title)
+      setDescription(parsedQuiz.description || '')
+      setDifficulty(parsedQuiz.difficulty)
+      setIsTimed(parsedQuiz.isTimed)
+      setTimeLimit(parsedQuiz.timeLimit || 30)
+      setDefaultMode(parsedQuiz.defaultMode ?? 'exam')
+      setQuestions(parsedQuiz.questions.map(toDraft))
+    } catch (error) {
+      console.error('Error loading quiz for editing:', error)
+      navigate('/generate')
+    } finally {
+      setLoading(false)
+    }
+  }, [id, navigate])
+
+  useEffect(() => {
+    loadQuiz()
+  }, [loadQuiz])
+
+  const updateQuestion = (index: number, question: DraftQuestion) => {
+    setQuestions(prev => prev.map((item, i) => (i === index ? question : item)))
+    // Flags describe the question as it was checked, so editing it clears them
+    setQualityFlags(prev => {
+      if (!prev[question.id]) return prev
+      const { [question.id]: _cleared, ...rest } = prev
+      return rest
+    })
+  }
+
+  const deleteQuestion = (index: number) => {
+    setQuestions(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const addQuestion = () => {
+    setQuestions(prev => [...prev, toDraft(createBlankQuestion('multiple_choice'))])
+  }
+
+  const moveQuestion = (fromIndex: number, toIndex: number) => {
+    setQuestions(prev => {
+      const next = [...prev]
+      next.splice(toIndex, 0, ...next.splice(fromIndex, 1))
+      return next
+    })
+  }
+
+  const getQuizContext = (): QuizContext => ({
+    title,
+    topic: quiz?.topic,
+    description,
+    difficulty,
+    language: quiz?.language
+  })
+
+  const handleRegenerate = async (questionId: string) => {
+    const index = questions.findIndex(question => question.id === questionId)
+    if (index === -1) return
+
+    setRegeneratingId(questionId)
+    try {
+      const replacement = await regenerateQuestion(getQuizContext(), questions.map(fromDraft), index)
+      setQuestions(prev => prev.map(question => (question.id === questionId ? toDraft(replacement) : question)))
+    } catch (error) {
+      console.error('Error regenerating question:', error)
+      alert(`Failed to regenerate question: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    } finally {
+      setRegeneratingId(null)
+    }
+  }
+
+  const handleGenerateMore = async () => {
+    setGeneratingMore(true)
+    try {
+      const generated = await generateMoreQuestions(getQuizContext(), questions.map(fromDraft), moreCount)
+      setQuestions(prev => [...prev, ...generated.map(toDraft)])
+    } catch (error) {
+      console.error('Error generating more questions:', error)
+      alert(`Failed to generate questions: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    } finally {
+      setGeneratingMore(false)
+    }
+  }
+
+  const handleCheckQuality = async () => {
+    setCheckingQuality(true)
+    try {
+      const { flags, verified } = await checkQuizQuality(questions.map(fromDraft).map(cleanQuestion))
+      setQualityFlags(flags)
+      setQualityChecked(verified ? 'verified' : 'patterns')
+    } finally {
+      setCheckingQuality(false)
+    }
+  }
+
+  const flaggedCount = Object.keys(qualityFlags).length
+
+  const handleSave = async () => {
+    if (!quiz) return
+
+    const cleaned = questions.map(fromDraft).map(cleanQuestion)
+    const questionErrors: Record<string, string[]> = {}
+    cleaned.forEach(question => {
+      const problems = validateQuestion(question)
+      if (problems.length > 0) questionErrors[question.id] = problems
+    })
+    setErrors(questionErrors)
+
+    if (!title.trim()) {
+      setFormError('The quiz needs a title.')
+      return
+    }
+    if (cleaned.length === 0) {
+      setFormError('The quiz needs at least one question.')
+      return
+    }
+    if (isTimed && (!Number.isInteger(timeLimit) || timeLimit <= 0)) {
+      setFormError('Time limit must be a whole number of minutes.')
+      return
+    }
+    if (Object.keys(questionErrors).length > 0) {
+      setFormError(`${Object.keys(questionErrors).length} question(s) need fixing before the quiz can be saved.`)
+      return
+    }
+    setFormError('')
+
+    setSaving(true)
+    try {
+      await quizRepository.update(quiz.id, {
+        title: title.trim(),
+        description: description.trim(),
+        difficulty,
+        questions: cleaned,
+        isTimed,
+        timeLimit: isTimed ? timeLimit : null,
+        defaultMode
+      })
+
+      const removedIds = quiz.questions.map(question => question.id).filter(questionId => !cleaned.some(question => question.id === questionId))
+      await reviewCardRepository.deleteByQuiz(quiz.id, removedIds)
+
+      const remap = buildOptionRemap(quiz.questions, questions)
+      if (Object.keys(remap).length > 0) {
+        await migrateAttemptAnswers(quiz, cleaned, remap)
+      }
+
+      navigate(`/quiz/${quiz.id}`)
+    } catch (error) {
+      console.error('Error saving quiz:', error)
+      alert(`Failed to save quiz: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!quiz) return
+    if (!confirm(`Delete "${quiz.title}"? Its source documents are deleted too. Past attempts stay in your history.`)) return
+
+    setDeleting(true)
+    try {
+      await deleteQuiz(quiz)
+      navigate('/')
+    } catch (error) {
+      console.error('Error deleting quiz:', error)
+      alert(`Failed to delete quiz: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Loading Quiz...</h2>
+          <p className="text-gray-600">Please wait while we prepare the editor</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!quiz || !isOwner) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">Cannot Edit Quiz</h2>
+        <p className="text-gray-600 mb-6">Only the creator of a quiz can edit it.</p>
+        <Button onClick={() => navigate(quiz ? `/quiz/${quiz.id}` : '/generate')}>
+          Back
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Edit Quiz</h1>
+          <p className="text-gray-600 mt-2">
+            Review the generated questions and fix anything that is wrong
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate(`/quiz/${quiz.id}`)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Quiz
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Quiz Settings</CardTitle>
+          <CardDescription>Title, difficulty and timing</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="quiz-title">Title *</Label>
+            <Input id="quiz-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="quiz-description">Description</Label>
+            <Textarea
+              id="quiz-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quiz-difficulty">Difficulty Level</Label>
+              <Select value={difficulty} onValueChange={(value: 'easy' | 'medium' | 'hard') => setDifficulty(value)}>
+                <SelectTrigger id="quiz-difficulty">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="easy">Easy</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="hard">Hard</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quiz-mode">Default Mode</Label>
+              <Select value={defaultMode} onValueChange={(value: QuizMode) => setDefaultMode(value)}>
+                <SelectTrigger id="quiz-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="exam">Exam (scored at the end)</SelectItem>
+                  <SelectItem value="practice">Practice (instant feedback)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-indigo-600" />
+                <Label htmlFor="edit-timed-quiz" className="text-sm font-medium">
+                  Timed Quiz
+                </Label>
+              </div>
+              <Switch id="edit-timed-quiz" checked={isTimed} onCheckedChange={setIsTimed} />
+            </div>
+
+            {isTimed && (
+              <div className="space-y-2">
+                <Label htmlFor="edit-time-limit">Time Limit (minutes)</Label>
+                <Input
+                  id="edit-time-limit"
+                  type="number"
+                  min={1}
+                  value={timeLimit}
+                  onChange={(e) => setTimeLimit(parseInt(e.target.value))}
+                  className="max-w-xs"
+                />
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {((quiz.sourceDocuments && quiz.sourceDocuments.length > 0) || quiz.sourceUrl) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Sources</CardTitle>
+            <CardDescription>The files and web pages this quiz was generated from</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {quiz.sourceUrl && (
+              <div className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Globe className="h-5 w-5 text-indigo-600 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{new URL(quiz.sourceUrl).hostname}</p>
+                    <p className="text-xs text-gray-500 truncate">{quiz.sourceUrl}</p>
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={quiz.sourceUrl} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Open
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => navigate(`/generate?url=${encodeURIComponent(quiz.sourceUrl!)}`)}>
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    New Quiz
+                  </Button>
+                </div>
+              </div>
+            )}
+            {quiz.sourceDocuments?.map((document, index) => (
+              <div key={document.path} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <FileText className="h-5 w-5 text-indigo-600 shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{document.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatFileSize(document.size)} · Uploaded {new Date(document.uploadedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={document.url} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Open
+                    </a>
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => navigate(`/generate?source=${quiz.id}&document=${index}`)}>
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    New Quiz
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Keyed by quiz so moving to another language version reloads the list */}
+      <QuizTranslations key={quiz.id} quiz={quiz} />
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-indigo-600" />
+              Answer Key Check
+            </CardTitle>
+            <CardDescription>
+              {qualityChecked === 'none'
+                ? 'Re-answer every question independently and look for ambiguous or giveaway wording'
+                : flaggedCount > 0
+                  ? `${flaggedCount} question${flaggedCount === 1 ? '' : 's'} flagged for review`
+                  : 'No problems found'}
+              {qualityChecked === 'patterns' && ' (the independent answer check failed; only wording was checked)'}
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleCheckQuality} disabled={checkingQuality || questions.length === 0}>
+            {checkingQuality ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ShieldCheck className="h-4 w-4 mr-2" />
+            )}
+            {qualityChecked === 'none' ? 'Check Quiz' : 'Check Again'}
+          </Button>
+        </CardHeader>
+      </Card>
+
+      <div className="space-y-4">
+        <SortableList ids={questions.map(question => question.id)} onReorder={moveQuestion}>
+          <div className="space-y-4">
+            {questions.map((question, index) => (
+              <SortableItem key={question.id} id={question.id} label={`Reorder question ${index + 1}`}>
+                {(handle) => (
+                  <QuestionEditor
+                    question={question}
+                    index={index}
+                    errors={errors[question.id] || []}
+                    warnings={qualityFlags[question.id]}
+                    dragHandle={handle}
+                    regenerating={regeneratingId === question.id}
+                    onChange={(updated) => updateQuestion(index, updated)}
+                    onDelete={() => deleteQuestion(index)}
+                    onRegenerate={() => handleRegenerate(question.id)}
+                  />
+                )}
+              </SortableItem>
+            ))}
+          </div>
+        </SortableList>
+
+        <div className="flex flex-col sm:flex-row gap-4">
+          <Button variant="outline" onClick={addQuestion} className="flex-1">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Question
+          </Button>
+          <div className="flex flex-1 gap-2">
+            <Select value={moreCount.toString()} onValueChange={(value) => setMoreCount(parseInt(value))}>
+              <SelectTrigger className="w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1</SelectItem>
+                <SelectItem value="3">3</SelectItem>
+                <SelectItem value="5">5</SelectItem>
+                <SelectItem value="10">10</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={handleGenerateMore}
+              disabled={generatingMore || questions.length === 0}
+              className="flex-1"
+            >
+              {generatingMore ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Sparkles className="h-4 w-4 mr-2" />
+              )}
+              Generate More Like These
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {formError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 text-sm">
+          {formError}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-4">
+        <Button variant="outline" onClick={handleDelete} disabled={deleting || saving} className="mr-auto text-red-600 hover:text-red-700">
+          {deleting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Trash2 className="h-4 w-4 mr-2" />
+          )}
+          Delete Quiz
+        </Button>
+        <Button variant="outline" onClick={() => navigate(`/quiz/${quiz.id}`)}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <Save className="h-4 w-4 mr-2" />
+              Save Changes
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  )
+}
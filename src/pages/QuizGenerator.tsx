@@ -1,6 +1,6 @@
-import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
-import { Upload, BookOpen, Loader2, FileText, Brain, Clock, Timer } from 'lucide-react'
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { Upload, BookOpen, Loader2, FileText, FileUp, Brain, Timer, CheckCircle, XCircle, Circle, RefreshCw, Save, SlidersHorizontal, Globe, Download, Sheet, FileSpreadsheet } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -9,161 +9,375 @@ import { Textarea } from '@/components/ui/textarea'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Switch } from '@/components/ui/switch'
+import { GenerationProgress } from '@/components/quiz/GenerationProgress'
+import { GenerationSettingsForm } from '@/components/quiz/GenerationSettingsForm'
+import { QuizPreview } from '@/components/quiz/QuizPreview'
 import { blink } from '@/blink/client'
-import { Quiz, Question } from '@/types'
+import {
+  auth,
+  generationPresetRepository,
+  libraryDocumentRepository,
+  promptTemplateRepository,
+  quizRepository,
+  type LibraryDocumentSummary
+} from '@/lib/data'
+import { generateQuizFromDocument, generateTopicQuiz, renderPromptTemplate, type PromptStyle, type SectionCoverage } from '@/lib/generation'
+import { formatCharacters, saveToLibrary, titleFromFileName } from '@/lib/library'
+import { DEFAULT_GENERATION_SETTINGS, settingsOf } from '@/lib/presets'
+import { parseQuizImport } from '@/lib/quizSchema'
+import { createQuizId, downloadSourceDocument, removeSourceDocuments, uploadSourceDocument } from '@/lib/sourceDocuments'
+import {
+  buildTableQuestions,
+  DEFAULT_TABLE_WORDING,
+  parseDelimited,
+  polishTableQuestions,
+  TABLE_QUESTION_TYPES,
+  type ColumnMapping,
+  type DataTable
+} from '@/lib/tableQuiz'
+import { extractWebPage, type WebPage } from '@/lib/webPages'
+import type { GenerationPreset, GenerationSettings, PromptTemplate, Question, SourceDocument } from '@/types'
+
+interface PreparedDocument {
+  content: string
+  // The uploaded file, stored under the pending quiz's id
+  sourceDocument: SourceDocument | null
+  libraryTitle?: string
+  // The library copy of `content`, which question sources can be opened in
+  libraryDocumentId?: string
+  // Set for text fetched from a web page
+  sourceUrl?: string
+  pageTitle?: string
+}
+
+// A CSV or TSV file and how its columns become questions
+interface PreparedTable {
+  fileName: string
+  table: DataTable
+  mapping: ColumnMapping
+  wording: string
+  polish: boolean
+}
+
+// A generated quiz shown in the preview before it is saved
+interface PendingQuiz {
+  id: string
+  // Changes with every generation so the preview starts over
+  version: number
+  title: string
+  description: string
+  topic: string
+  difficulty: 'easy' | 'medium' | 'hard'
+  language: string
+  questions: Question[]
+  cancelled: boolean
+  // Kept so regenerating a document quiz skips the upload and extraction
+  document?: PreparedDocument
+  table?: PreparedTable
+}
+
+const removePendingUpload = (pending: PendingQuiz) => {
+  const sourceDocument = pending.document?.sourceDocument
+  if (!sourceDocument) return
+  removeSourceDocuments([sourceDocument]).catch(cleanupError => {
+    console.warn('Could not remove the uploaded document:', cleanupError)
+  })
+}
 
 export function QuizGenerator() {
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
   const [loading, setLoading] = useState(false)
-  const [activeTab, setActiveTab] = useState('topic')
+  const [importing, setImporting] = useState(false)
+  const [activeTab, setActiveTab] = useState(searchParams.get('url') ? 'url' : 'topic')
+
+  // Questions streamed in so far, and the controller that cancels the running generation
+  const [liveQuestions, setLiveQuestions] = useState<Question[]>([])
+  // Questions expected from the running generation, when not the question count setting
+  const [generationTotal, setGenerationTotal] = useState(0)
+  const [cancelling, setCancelling] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const startGeneration = () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setLiveQuestions([])
+    setGenerationTotal(0)
+    setCancelling(false)
+    setLoading(true)
+    return controller
+  }
+
+  const cancelGeneration = () => {
+    setCancelling(true)
+    abortRef.current?.abort()
+  }
   
   // Topic-based generation
   const [topic, setTopic] = useState('')
   const [description, setDescription] = useState('')
-  const [difficulty, setDifficulty] = useState<'easy' | 'medium' | 'hard'>('medium')
-  const [questionCount, setQuestionCount] = useState(10)
-  
-  // Timer settings
-  const [isTimedQuiz, setIsTimedQuiz] = useState(true)
-  const [timeLimit, setTimeLimit] = useState(30) // minutes
+
+  // Settings shared by both tabs, filled from a saved preset or the user's default one
+  const [settings, setSettings] = useState<GenerationSettings>(DEFAULT_GENERATION_SETTINGS)
+  const { difficulty, questionCount, questionTypes } = settings
+  const [presets, setPresets] = useState<GenerationPreset[]>([])
+  const [presetId, setPresetId] = useState('')
+  const [templates, setTemplates] = useState<PromptTemplate[]>([])
+  const [templateId, setTemplateId] = useState('')
+
+  useEffect(() => {
+    const loadPresets = async () => {
+      try {
+        const user = await auth.me()
+        const [userPresets, userTemplates] = await Promise.all([
+          generationPresetRepository.listByUser(user.id),
+          promptTemplateRepository.listByUser(user.id)
+        ])
+        setPresets(userPresets)
+        setTemplates(userTemplates)
+
+        const defaultPreset = userPresets.find(preset => preset.isDefault)
+        if (defaultPreset) {
+          setSettings(settingsOf(defaultPreset))
+          setPresetId(defaultPreset.id)
+        }
+      } catch (error) {
+        console.error('Error loading generation presets:', error)
+      }
+    }
+
+    loadPresets()
+  }, [])
+
+  const applyPreset = (id: string) => {
+    setPresetId(id)
+    const preset = presets.find(item => item.id === id)
+    if (preset) setSettings(settingsOf(preset))
+  }
+
+  // Saving under an existing name replaces that preset
+  const handleSavePreset = async () => {
+    const name = prompt('Name this preset:', presets.find(preset => preset.id === presetId)?.name ?? '')?.trim()
+    if (!name) return
+
+    const existing = presets.find(preset => preset.name.toLowerCase() === name.toLowerCase())
+    if (existing && !confirm(`Replace the preset "${existing.name}" with the current settings?`)) return
+
+    try {
+      const user = await auth.me()
+      const saved = existing
+        ? await generationPresetRepository.update(existing.id, settings)
+        : await generationPresetRepository.create({ ...settings, name, isDefault: false, userId: user.id })
+      setPresets(prev => [...prev.filter(preset => preset.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+      setPresetId(saved.id)
+    } catch (error) {
+      console.error('Error saving preset:', error)
+      alert(`Failed to save preset: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    }
+  }
+
+  const promptStyle = (): PromptStyle => ({
+    language: settings.language,
+    tone: settings.tone,
+    audience: settings.audience,
+    instructions: settings.instructions,
+    template: templates.find(template => template.id === templateId)?.body
+  })
   
   // PDF-based generation
   const [pdfFile, setPdfFile] = useState<File | null>(null)
   const [pdfText, setPdfText] = useState('')
+  const [sectionProgress, setSectionProgress] = useState<SectionCoverage[]>([])
+  // Set when generating another quiz from a document stored with an earlier quiz
+  const [reusedFrom, setReusedFrom] = useState<string | null>(null)
+  const [loadingSource, setLoadingSource] = useState(false)
 
-  const generateQuizFromTopic = async () => {
-    if (!topic.trim()) {
-      alert('Please enter a topic for the quiz.')
-      return
+  // Extracted text saved in the document library
+  const [libraryDocuments, setLibraryDocuments] = useState<LibraryDocumentSummary[]>([])
+  const [libraryDocumentId, setLibraryDocumentId] = useState(searchParams.get('library') ?? '')
+  const [saveExtractedText, setSaveExtractedText] = useState(true)
+
+  useEffect(() => {
+    const loadLibrary = async () => {
+      try {
+        const user = await auth.me()
+        setLibraryDocuments(await libraryDocumentRepository.listByUser(user.id))
+      } catch (error) {
+        console.error('Error loading document library:', error)
+      }
     }
 
-    setLoading(true)
+    loadLibrary()
+    if (searchParams.get('library')) setActiveTab('pdf')
+  }, [searchParams])
+
+  const sourceQuizId = searchParams.get('source')
+  const sourceDocumentIndex = Number(searchParams.get('document') ?? 0)
+
+  useEffect(() => {
+    if (!sourceQuizId) return
+
+    const loadSourceDocument = async () => {
+      try {
+        setLoadingSource(true)
+        setActiveTab('pdf')
+        const sourceQuiz = await quizRepository.get(sourceQuizId)
+        const document = sourceQuiz?.sourceDocuments?.[sourceDocumentIndex]
+        if (!sourceQuiz || !document) {
+          alert('The source document could not be found. Please upload it again.')
+          return
+        }
+
+        setPdfFile(await downloadSourceDocument(document))
+        setPdfText('')
+        setSettings(prev => ({ ...prev, difficulty: sourceQuiz.difficulty }))
+        setReusedFrom(sourceQuiz.title)
+      } catch (error) {
+        console.error('Error loading source document:', error)
+        alert('Failed to load the source document. Please upload it again.')
+      } finally {
+        setLoadingSource(false)
+      }
+    }
+
+    loadSourceDocument()
+  }, [sourceQuizId, sourceDocumentIndex])
+
+  // URL-based generation; the extracted text is shown for checking before anything is generated
+  const [pageUrl, setPageUrl] = useState(searchParams.get('url') ?? '')
+  const [webPage, setWebPage] = useState<WebPage | null>(null)
+  const [pageText, setPageText] = useState('')
+  const [fetchingPage, setFetchingPage] = useState(false)
+
+  // Spreadsheet generation: questions are built from the rows, the AI at most rewords them
+  const [tableFileName, setTableFileName] = useState('')
+  const [dataTable, setDataTable] = useState<DataTable | null>(null)
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({ prompt: 0, answer: 1, explanation: null })
+  const [tableWording, setTableWording] = useState('')
+  const [polishTable, setPolishTable] = useState(true)
+
+  // A generated quiz waiting in the preview; it is only stored once accepted
+  const [pending, setPending] = useState<PendingQuiz | null>(null)
+  const [savingQuiz, setSavingQuiz] = useState(false)
+  const pendingRef = useRef<PendingQuiz | null>(null)
+
+  useEffect(() => {
+    pendingRef.current = pending
+  }, [pending])
+
+  // Leaving the page without accepting abandons the preview and its uploaded file
+  useEffect(() => () => {
+    if (pendingRef.current) removePendingUpload(pendingRef.current)
+  }, [])
+
+  const runTopicGeneration = async (quizId: string): Promise<PendingQuiz | null> => {
+    const controller = startGeneration()
     try {
       console.log('Starting quiz generation for topic:', topic)
       
-      // Generate quiz questions using AI
-      const { object: quizData } = await blink.ai.generateObject({
-        prompt: `Generate a ${difficulty} difficulty quiz about "${topic}" with ${questionCount} multiple choice questions. ${description ? `Additional context: ${description}` : ''}
-        
-        Each question should have:
-        - A clear, well-written question
-        - 4 multiple choice options (A, B, C, D)
-        - The correct answer index (0-3)
-        - A brief explanation of why the answer is correct
-        
-        Make sure questions are varied, educational, and appropriate for the difficulty level.`,
-        schema: {
-          type: 'object',
-          properties: {
-            title: { type: 'string' },
-            questions: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  question: { type: 'string' },
-                  options: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    minItems: 4,
-                    maxItems: 4
-                  },
-                  correctAnswer: { type: 'number', minimum: 0, maximum: 3 },
-                  explanation: { type: 'string' }
-                },
-                required: ['question', 'options', 'correctAnswer', 'explanation']
-              }
-            }
-          },
-          required: ['title', 'questions']
-        }
+      // Generate quiz questions using AI, showing each one as it arrives
+      const quizData = await generateTopicQuiz({
+        topic,
+        description,
+        difficulty,
+        questionCount,
+        questionTypes,
+        style: promptStyle(),
+        targets: { objectives: settings.objectives, levelMix: settings.levelMix },
+        signal: controller.signal,
+        onQuestions: setLiveQuestions
       })
 
       console.log('AI generated quiz data:', quizData)
+      if (quizData.questions.length === 0) return null
 
-      // Get current user
-      const user = await blink.auth.me()
-      console.log('Current user:', user)
-
-      // Create quiz in database
-      const quiz = await blink.db.quizzes.create({
+      return {
+        id: quizId,
+        version: Date.now(),
         title: quizData.title,
         description: description || `A ${difficulty} quiz about ${topic}`,
         topic,
         difficulty,
-        questions: JSON.stringify(quizData.questions.map((q: any, index: number) => ({
-          id: `q_${index + 1}`,
-          question: q.question,
-          options: q.options,
-          correctAnswer: q.correctAnswer,
-          explanation: q.explanation
-        }))),
-        isTimed: isTimedQuiz,
-        timeLimit: isTimedQuiz ? timeLimit : null,
-        userId: user.id,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      })
-
-      console.log('Quiz created in database:', quiz)
-
-      // Navigate to the quiz
-      navigate(`/quiz/${quiz.id}`)
+        language: settings.language,
+        questions: quizData.questions,
+        cancelled: quizData.cancelled
+      }
     } catch (error) {
       console.error('Error generating quiz:', error)
       alert(`Failed to generate quiz: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+      return null
     } finally {
+      abortRef.current = null
       setLoading(false)
     }
   }
 
-  const generateQuizFromPDF = async () => {
-    if (!pdfFile && !pdfText.trim()) {
-      alert('Please upload a file or paste text content.')
+  const generateQuizFromTopic = async () => {
+    if (!topic.trim()) {
+      alert('Please enter a topic for the quiz.')
       return
     }
 
-    setLoading(true)
+    const generated = await runTopicGeneration(createQuizId())
+    if (generated) setPending(generated)
+  }
+
+  // Extracts the document unless `prepared` carries the text from an earlier run
+  const runDocumentGeneration = async (quizId: string, prepared?: PreparedDocument): Promise<PendingQuiz | null> => {
+    const controller = startGeneration()
+    setSectionProgress([])
+
+    // A file uploaded here is stored under the quiz's id and removed again unless it reaches the preview
+    let uploaded: SourceDocument | null = null
+    let kept = false
+
     try {
-      let content = pdfText
-
-      // If PDF file is provided, extract text from it
-      if (pdfFile) {
-        console.log('Extracting text from file:', pdfFile.name, 'Type:', pdfFile.type, 'Size:', pdfFile.size)
-        
-        try {
-          // First, try to upload the file to storage and then extract from URL
-          console.log('Uploading file to storage...')
-          const { publicUrl } = await blink.storage.upload(
-            pdfFile,
-            `temp-uploads/${Date.now()}-${pdfFile.name}`,
-            { upsert: true }
-          )
-          console.log('File uploaded to:', publicUrl)
-          
-          // Extract text from the uploaded file URL
-          console.log('Extracting text from URL...')
-          content = await blink.data.extractFromUrl(publicUrl)
-          console.log('Extracted content length:', content.length)
-          
-          // Clean up the temporary file after extraction
-          try {
-            await blink.storage.remove(`temp-uploads/${Date.now()}-${pdfFile.name}`)
-          } catch (cleanupError) {
-            console.warn('Could not clean up temporary file:', cleanupError)
+      let document = prepared
+
+      if (!document) {
+        let content = pdfText
+        let libraryTitle: string | undefined
+        let libraryId: string | undefined
+
+        if (libraryDocumentId) {
+          // Library documents were extracted when they were added
+          const libraryDocument = await libraryDocumentRepository.get(libraryDocumentId)
+          if (!libraryDocument) {
+            alert('The selected library document no longer exists. Please choose another one.')
+            return null
           }
+          content = libraryDocument.text
+          libraryTitle = libraryDocument.title
+          libraryId = libraryDocument.id
+        } else if (pdfFile) {
+          const user = await auth.me()
+
+          // If PDF file is provided, extract text from it
+          console.log('Extracting text from file:', pdfFile.name, 'Type:', pdfFile.type, 'Size:', pdfFile.size)
           
-        } catch (extractError) {
-          console.error('Error extracting text from file:', extractError)
-          
-          // Fallback: Try direct blob extraction
           try {
-            console.log('Trying direct blob extraction as fallback...')
-            content = await blink.data.extractFromBlob(pdfFile)
-            console.log('Fallback extraction successful, content length:', content.length)
-          } catch (fallbackError) {
-            console.error('Fallback extraction also failed:', fallbackError)
-            alert(`Failed to extract text from the uploaded file. 
+            // First, try to upload the file to storage and then extract from URL
+            console.log('Uploading file to storage...')
+            uploaded = await uploadSourceDocument(user.id, quizId, pdfFile)
+            console.log('File uploaded to:', uploaded.url)
+            
+            // Extract text from the uploaded file URL
+            console.log('Extracting text from URL...')
+            content = await blink.data.extractFromUrl(uploaded.url)
+            console.log('Extracted content length:', content.length)
+          } catch (extractError) {
+            console.error('Error extracting text from file:', extractError)
+            
+            // Fallback: Try direct blob extraction
+            try {
+              console.log('Trying direct blob extraction as fallback...')
+              content = await blink.data.extractFromBlob(pdfFile)
+              console.log('Fallback extraction successful, content length:', content.length)
+            } catch (fallbackError) {
+              console.error('Fallback extraction also failed:', fallbackError)
+              alert(`Failed to extract text from the uploaded file. 
 
 Possible solutions:
 1. Try pasting the text content manually in the text area below
@@ -171,84 +385,250 @@ Possible solutions:
 3. Use a different PDF file
 
 Error details: ${extractError instanceof Error ? extractError.message : 'Unknown error'}`)
-            return
+              return null
+            }
           }
+
+          // Keep the text so the next quiz from this file skips the upload and extraction
+          if (saveExtractedText && content.trim()) {
+            try {
+              const saved = await saveToLibrary(user.id, content, { title: titleFromFileName(pdfFile.name), fileName: pdfFile.name })
+              libraryId = saved.id
+            } catch (libraryError) {
+              console.warn('Could not save the document to the library:', libraryError)
+            }
+          }
+        }
+
+        if (!content.trim()) {
+          alert('No content found in the document. The file might be empty, image-based, or corrupted. Please try pasting the text manually or use a different file.')
+          return null
         }
+        document = { content, sourceDocument: uploaded, libraryTitle, libraryDocumentId: libraryId }
+      }
+
+      console.log('Starting quiz generation from document content, length:', document.content.length)
+
+      // Long documents are generated section by section instead of being truncated
+      const quizData = await generateQuizFromDocument(document.content, {
+        difficulty,
+        questionCount,
+        questionTypes,
+        style: promptStyle(),
+        targets: { objectives: settings.objectives, levelMix: settings.levelMix },
+        onProgress: setSectionProgress,
+        signal: controller.signal,
+        onQuestions: setLiveQuestions
+      })
+
+      console.log('AI generated quiz data from document:', quizData)
+      if (quizData.questions.length === 0) return null
+      const coveredSections = quizData.sections
+        .filter(section => section.generated > 0)
+        .map(section => section.title)
+
+      kept = true
+      return {
+        id: quizId,
+        version: Date.now(),
+        title: quizData.title,
+        description: `${document.libraryTitle || document.pageTitle
+          ? `Quiz generated from "${document.libraryTitle || document.pageTitle}"`
+          : 'Quiz generated from uploaded document'}${
+          quizData.sections.length > 1 ? `, covering: ${coveredSections.join('; ')}` : ''}`,
+        topic: document.sourceUrl ? 'Web page' : 'Document-based',
+        difficulty,
+        language: settings.language,
+        questions: quizData.questions,
+        cancelled: quizData.cancelled,
+        document
+      }
+    } catch (error) {
+      console.error('Error generating quiz from PDF:', error)
+      alert(`Failed to generate quiz from document: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+      return null
+    } finally {
+      if (uploaded && !kept) {
+        removeSourceDocuments([uploaded]).catch(cleanupError => {
+          console.warn('Could not remove the uploaded document:', cleanupError)
+        })
+      }
+      abortRef.current = null
+      setLoading(false)
+    }
+  }
+
+  const generateQuizFromPDF = async () => {
+    if (!pdfFile && !pdfText.trim() && !libraryDocumentId) {
+      alert('Please choose a library document, upload a file or paste text content.')
+      return
+    }
+
+    const generated = await runDocumentGeneration(createQuizId())
+    if (generated) setPending(generated)
+  }
+
+  const fetchPage = async () => {
+    if (!pageUrl.trim()) return
+
+    setFetchingPage(true)
+    try {
+      const page = await extractWebPage(pageUrl)
+      if (!page.text.trim()) {
+        alert('No readable text was found on this page. Try another address, or copy the text into the Document tab.')
+        return
       }
+      setWebPage(page)
+      setPageText(page.text)
+    } catch (error) {
+      console.error('Error fetching web page:', error)
+      alert(`Failed to fetch the page: ${error instanceof Error ? error.message : 'Unknown error'}. Check the address, or copy the text into the Document tab.`)
+    } finally {
+      setFetchingPage(false)
+    }
+  }
 
-      if (!content.trim()) {
-        alert('No content found in the document. The file might be empty, image-based, or corrupted. Please try pasting the text manually or use a different file.')
+  const generateQuizFromUrl = async () => {
+    if (!webPage || !pageText.trim()) {
+      alert('Please fetch the page and check its text first.')
+      return
+    }
+
+    const generated = await runDocumentGeneration(createQuizId(), {
+      content: pageText,
+      sourceDocument: null,
+      sourceUrl: webPage.url,
+      pageTitle: webPage.title
+    })
+    if (generated) setPending(generated)
+  }
+
+  const handleTableUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const table = parseDelimited(await file.text())
+      if (table.headers.length < 2 || table.rows.length === 0) {
+        alert('The file needs a header row with at least two columns, and at least one row of data.')
         return
       }
+      setDataTable(table)
+      setTableFileName(file.name)
+      setColumnMapping({ prompt: 0, answer: 1, explanation: null })
+    } catch (error) {
+      console.error('Error reading table file:', error)
+      alert(`Failed to read the file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
 
-      // Limit content length to avoid API limits
-      if (content.length > 50000) {
-        console.log('Content too long, truncating to 50000 characters')
-        content = content.substring(0, 50000) + '...'
+  // Builds every row into a question; only the optional rewording uses the AI
+  const runTableGeneration = async (quizId: string, prepared: PreparedTable): Promise<PendingQuiz | null> => {
+    const controller = startGeneration()
+    try {
+      const built = buildTableQuestions(prepared.table, prepared.mapping, { types: questionTypes, wording: prepared.wording })
+      if (built.length === 0) {
+        alert('No row has both a question and an answer. Please check the column mapping.')
+        return null
       }
 
-      console.log('Starting quiz generation from document content')
-
-      // Generate quiz questions from the extracted content
-      const { object: quizData } = await blink.ai.generateObject({
-        prompt: `Based on the following content, generate a ${difficulty} difficulty quiz with ${questionCount} multiple choice questions:
-
-        ${content}
-        
-        Each question should:
-        - Test understanding of key concepts from the content
-        - Have 4 multiple choice options (A, B, C, D)
-        - Include the correct answer index (0-3)
-        - Provide a brief explanation referencing the source material
-        
-        Make sure questions cover different parts of the content and test various levels of comprehension.`,
-        schema: {
-          type: 'object',
-          properties: {
-            title: { type: 'string' },
-            questions: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  question: { type: 'string' },
-                  options: {
-                    type: 'array',
-                    items: { type: 'string' },
-                    minItems: 4,
-                    maxItems: 4
-                  },
-                  correctAnswer: { type: 'number', minimum: 0, maximum: 3 },
-                  explanation: { type: 'string' }
-                },
-                required: ['question', 'options', 'correctAnswer', 'explanation']
-              }
-            }
-          },
-          required: ['title', 'questions']
-        }
-      })
+      setGenerationTotal(built.length)
+      const questions = prepared.polish
+        ? await polishTableQuestions(built, {
+            subject: `${titleFromFileName(prepared.fileName)}: ${prepared.table.headers[prepared.mapping.prompt]} and ${prepared.table.headers[prepared.mapping.answer]}`,
+            signal: controller.signal,
+            onQuestions: setLiveQuestions
+          })
+        : built
 
-      console.log('AI generated quiz data from document:', quizData)
+      return {
+        id: quizId,
+        version: Date.now(),
+        title: titleFromFileName(prepared.fileName),
+        description: `Quiz generated from "${prepared.fileName}" (${questions.length} rows)`,
+        topic: 'Spreadsheet',
+        difficulty,
+        language: settings.language,
+        questions,
+        // Cancelling only stops the rewording, every row still has its question
+        cancelled: false,
+        table: prepared
+      }
+    } catch (error) {
+      console.error('Error generating quiz from table:', error)
+      alert(`Failed to generate quiz from the file: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+      return null
+    } finally {
+      abortRef.current = null
+      setLoading(false)
+    }
+  }
+
+  const generateQuizFromTable = async () => {
+    if (!dataTable) {
+      alert('Please upload a CSV or TSV file.')
+      return
+    }
+    if (columnMapping.prompt === columnMapping.answer) {
+      alert('The question and answer must come from different columns.')
+      return
+    }
+
+    const generated = await runTableGeneration(createQuizId(), {
+      fileName: tableFileName,
+      table: dataTable,
+      mapping: columnMapping,
+      wording: tableWording.trim() || DEFAULT_TABLE_WORDING,
+      polish: polishTable
+    })
+    if (generated) setPending(generated)
+  }
 
-      // Get current user
-      const user = await blink.auth.me()
+  // Runs the same source again with the current settings, keeping the quiz id and any uploaded file
+  const regenerateQuiz = async () => {
+    if (!pending) return
+    if (!confirm('Regenerate the quiz with these settings? The questions in the preview, including your edits, are replaced.')) return
+
+    const generated = pending.table
+      ? await runTableGeneration(pending.id, pending.table)
+      : pending.document
+        ? await runDocumentGeneration(pending.id, pending.document)
+        : await runTopicGeneration(pending.id)
+    if (generated) setPending(generated)
+  }
+
+  const discardQuiz = () => {
+    if (!pending) return
+    if (!confirm('Discard this quiz? Nothing has been saved.')) return
+
+    removePendingUpload(pending)
+    setPending(null)
+    setSectionProgress([])
+  }
+
+  const acceptQuiz = async (title: string, questions: Question[]) => {
+    if (!pending) return
+
+    setSavingQuiz(true)
+    try {
+      const user = await auth.me()
 
       // Create quiz in database
-      const quiz = await blink.db.quizzes.create({
-        title: quizData.title,
-        description: `Quiz generated from uploaded document`,
-        topic: 'Document-based',
-        difficulty,
-        questions: JSON.stringify(quizData.questions.map((q: any, index: number) => ({
-          id: `q_${index + 1}`,
-          question: q.question,
-          options: q.options,
-          correctAnswer: q.correctAnswer,
-          explanation: q.explanation
-        }))),
-        isTimed: isTimedQuiz,
-        timeLimit: isTimedQuiz ? timeLimit : null,
+      const quiz = await quizRepository.create({
+        id: pending.id,
+        title,
+        description: pending.description,
+        topic: pending.topic,
+        difficulty: pending.difficulty,
+        language: pending.language,
+        questions,
+        isTimed: settings.isTimed,
+        timeLimit: settings.isTimed ? settings.timeLimit : null,
+        defaultMode: settings.defaultMode,
+        sourceDocuments: pending.document?.sourceDocument ? [pending.document.sourceDocument] : [],
+        sourceUrl: pending.document?.sourceUrl,
+        libraryDocumentId: pending.document?.libraryDocumentId,
         userId: user.id,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
@@ -256,13 +636,42 @@ Error details: ${extractError instanceof Error ? extractError.message : 'Unknown
 
       console.log('Quiz created in database:', quiz)
 
-      // Navigate to the quiz
+      // The uploaded file now belongs to the saved quiz
+      pendingRef.current = null
       navigate(`/quiz/${quiz.id}`)
     } catch (error) {
-      console.error('Error generating quiz from PDF:', error)
-      alert(`Failed to generate quiz from document: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+      console.error('Error saving quiz:', error)
+      alert(`Failed to save quiz: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
     } finally {
-      setLoading(false)
+      setSavingQuiz(false)
+    }
+  }
+
+  // Imported quizzes go through the same schema as generated ones, then open in the editor
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setImporting(true)
+    try {
+      const { quiz, problems } = parseQuizImport(JSON.parse(await file.text()))
+      if (problems.length > 0) {
+        const details = problems
+          .slice(0, 5)
+          .map(problem => `- ${problem.question}: ${problem.issues.join('; ')}`)
+          .join('\n')
+        if (!confirm(`${problems.length} question(s) in this file are invalid and will be skipped:\n\n${details}\n\nImport the other ${quiz.questions.length}?`)) return
+      }
+
+      const user = await auth.me()
+      const created = await quizRepository.create({ ...quiz, userId: user.id })
+      navigate(`/quiz/${created.id}/edit`)
+    } catch (error) {
+      console.error('Error importing quiz:', error)
+      alert(`Failed to import quiz: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setImporting(false)
     }
   }
 
@@ -297,308 +706,640 @@ Error details: ${extractError instanceof Error ? extractError.message : 'Unknown
       }
       
       setPdfFile(file)
+      setReusedFrom(null)
+      setLibraryDocumentId('')
       // Clear the text area when a file is selected
       setPdfText('')
     }
   }
 
+  // Per-section progress of a long document or page
+  const documentSections = sectionProgress.length > 1 && (
+    <div className="space-y-2 p-4 bg-gray-50 rounded-lg">
+      <p className="text-sm font-medium text-gray-900">
+        Document sections ({sectionProgress.filter(section => section.generated > 0).length} of {sectionProgress.length} covered)
+      </p>
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {sectionProgress.map((section, index) => (
+          <li key={index} className="flex items-center gap-2 text-sm text-gray-600">
+            {section.status === 'generating' ? (
+              <Loader2 className="h-4 w-4 text-indigo-600 animate-spin shrink-0" />
+            ) : section.status === 'done' ? (
+              <CheckCircle className="h-4 w-4 text-green-500 shrink-0" />
+            ) : section.status === 'failed' ? (
+              <XCircle className="h-4 w-4 text-red-500 shrink-0" />
+            ) : (
+              <Circle className="h-4 w-4 text-gray-300 shrink-0" />
+            )}
+            <span className="truncate flex-1">{section.title}</span>
+            <span className="text-xs text-gray-500 shrink-0">
+              {section.status === 'skipped'
+                ? 'no questions'
+                : section.status === 'done'
+                  ? `${section.generated} question${section.generated === 1 ? '' : 's'}`
+                  : `${section.planned} planned`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+
+  // The first usable row, shown with the wording as it will read
+  const tableExampleRow = dataTable?.rows.find(row => row[columnMapping.prompt] && row[columnMapping.answer])
+  const tableExample = dataTable && tableExampleRow && {
+    question: renderPromptTemplate(tableWording.trim() || DEFAULT_TABLE_WORDING, {
+      prompt: tableExampleRow[columnMapping.prompt],
+      column: dataTable.headers[columnMapping.answer].toLowerCase()
+    }),
+    answer: tableExampleRow[columnMapping.answer]
+  }
+
   return (
     <div className="max-w-4xl mx-auto space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Generate Quiz</h1>
-        <p className="text-gray-600 mt-2">
-          Create a new quiz from a topic or upload a PDF document
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Generate Quiz</h1>
+          <p className="text-gray-600 mt-2">
+            Create a new quiz from a topic, a document, a web page or a spreadsheet
+          </p>
+        </div>
+        <input
+          id="quiz-import"
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+        <Button variant="outline" asChild disabled={importing}>
+          <label htmlFor="quiz-import" className="cursor-pointer">
+            {importing ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileUp className="h-4 w-4 mr-2" />
+            )}
+            Import Quiz
+          </label>
+        </Button>
       </div>
 
-      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
-          <TabsTrigger value="topic" className="flex items-center gap-2">
-            <Brain className="h-4 w-4" />
-            Topic-based
-          </TabsTrigger>
-          <TabsTrigger value="pdf" className="flex items-center gap-2">
-            <FileText className="h-4 w-4" />
-            PDF Upload
-          </TabsTrigger>
-        </TabsList>
-
-        <TabsContent value="topic" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Brain className="h-5 w-5 text-indigo-600" />
-                Generate from Topic
-              </CardTitle>
-              <CardDescription>
-                Enter a topic and let AI generate quiz questions for you
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
+      {!pending && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5 text-indigo-600" />
+              Preset and Prompt
+            </CardTitle>
+            <CardDescription>
+              Start from saved settings and wording; choose your default preset in your profile
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-end">
               <div className="space-y-2">
-                <Label htmlFor="topic">Topic *</Label>
-                <Input
-                  id="topic"
-                  placeholder="e.g., World War II, JavaScript Fundamentals, Biology..."
-                  value={topic}
-                  onChange={(e) => setTopic(e.target.value)}
-                />
+                <Label htmlFor="generation-preset">Preset</Label>
+                <Select value={presetId || 'none'} onValueChange={(value) => value === 'none' ? setPresetId('') : applyPreset(value)}>
+                  <SelectTrigger id="generation-preset">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No preset</SelectItem>
+                    {presets.map(preset => (
+                      <SelectItem key={preset.id} value={preset.id}>
+                        {preset.name}{preset.isDefault ? ' (default)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="description">Description (Optional)</Label>
-                <Textarea
-                  id="description"
-                  placeholder="Add any specific focus areas or additional context..."
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  rows={3}
-                />
+                <Label htmlFor="generation-template">Prompt Template</Label>
+                <Select value={templateId || 'none'} onValueChange={(value) => setTemplateId(value === 'none' ? '' : value)}>
+                  <SelectTrigger id="generation-template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Standard prompt</SelectItem>
+                    {templates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Button variant="outline" onClick={handleSavePreset}>
+                <Save className="h-4 w-4 mr-2" />
+                Save as Preset
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {pending ? (
+        !loading && (
+          <>
+            <QuizPreview
+              key={pending.version}
+              title={pending.title}
+              questions={pending.questions}
+              requested={questionCount}
+              cancelled={pending.cancelled}
+              context={{ topic: pending.topic, description: pending.description, difficulty: pending.difficulty, language: pending.language }}
+              saving={savingQuiz}
+              onAccept={acceptQuiz}
+              onDiscard={discardQuiz}
+            />
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <RefreshCw className="h-5 w-5 text-indigo-600" />
+                  Regenerate
+                </CardTitle>
+                <CardDescription>
+                  Not what you wanted? Generate the quiz again from the same {pending.table ? 'file' : pending.document?.sourceUrl ? 'page' : pending.document ? 'document' : 'topic'} with different settings
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <GenerationSettingsForm id="regenerate" value={settings} onChange={setSettings} />
+
+                <Button variant="outline" onClick={regenerateQuiz} disabled={savingQuiz} className="w-full">
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Regenerate Quiz
+                </Button>
+              </CardContent>
+            </Card>
+          </>
+        )
+      ) : (
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="topic" className="flex items-center gap-2">
+              <Brain className="h-4 w-4" />
+              Topic-based
+            </TabsTrigger>
+            <TabsTrigger value="pdf" className="flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              PDF Upload
+            </TabsTrigger>
+            <TabsTrigger value="url" className="flex items-center gap-2">
+              <Globe className="h-4 w-4" />
+              From URL
+            </TabsTrigger>
+            <TabsTrigger value="table" className="flex items-center gap-2">
+              <Sheet className="h-4 w-4" />
+              Spreadsheet
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="topic" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Brain className="h-5 w-5 text-indigo-600" />
+                  Generate from Topic
+                </CardTitle>
+                <CardDescription>
+                  Enter a topic and let AI generate quiz questions for you
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
                 <div className="space-y-2">
-                  <Label htmlFor="difficulty">Difficulty Level</Label>
-                  <Select value={difficulty} onValueChange={(value: 'easy' | 'medium' | 'hard') => setDifficulty(value)}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="easy">Easy</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="hard">Hard</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="topic">Topic *</Label>
+                  <Input
+                    id="topic"
+                    placeholder="e.g., World War II, JavaScript Fundamentals, Biology..."
+                    value={topic}
+                    onChange={(e) => setTopic(e.target.value)}
+                  />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="questionCount">Number of Questions</Label>
-                  <Select value={questionCount.toString()} onValueChange={(value) => setQuestionCount(parseInt(value))}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="5">5 Questions</SelectItem>
-                      <SelectItem value="10">10 Questions</SelectItem>
-                      <SelectItem value="15">15 Questions</SelectItem>
-                      <SelectItem value="20">20 Questions</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  <Label htmlFor="description">Description (Optional)</Label>
+                  <Textarea
+                    id="description"
+                    placeholder="Add any specific focus areas or additional context..."
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    rows={3}
+                  />
                 </div>
-              </div>
 
-              {/* Timer Settings */}
-              <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Clock className="h-4 w-4 text-indigo-600" />
-                    <Label htmlFor="timed-quiz" className="text-sm font-medium">
-                      Timed Quiz
-                    </Label>
+                <GenerationSettingsForm id="topic" value={settings} onChange={setSettings} />
+
+                <Button 
+                  onClick={generateQuizFromTopic}
+                  disabled={!topic.trim() || loading}
+                  className="w-full"
+                  size="lg"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Generating Quiz...
+                    </>
+                  ) : (
+                    <>
+                      <BookOpen className="h-4 w-4 mr-2" />
+                      Generate Quiz
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="pdf" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-5 w-5 text-indigo-600" />
+                  Generate from PDF
+                </CardTitle>
+                <CardDescription>
+                  Upload a PDF document or paste text to generate quiz questions
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-4">
+                  {libraryDocuments.length > 0 && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="pdf-library">From Your Library</Label>
+                        <Select
+                          value={libraryDocumentId || 'none'}
+                          onValueChange={(value) => {
+                            setLibraryDocumentId(value === 'none' ? '' : value)
+                            if (value !== 'none') {
+                              setPdfFile(null)
+                              setPdfText('')
+                              setReusedFrom(null)
+                            }
+                          }}
+                        >
+                          <SelectTrigger id="pdf-library">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Upload or paste a new document</SelectItem>
+                            {libraryDocuments.map(document => (
+                              <SelectItem key={document.id} value={document.id}>
+                                {document.title} ({document.pageCount} page{document.pageCount === 1 ? '' : 's'})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <div className="text-center text-gray-500">
+                        <span className="bg-gray-50 px-3 py-1 rounded-full text-sm">OR</span>
+                      </div>
+                    </>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="pdf-upload">Upload PDF Document</Label>
+                    <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-gray-400 transition-colors">
+                      <input
+                        id="pdf-upload"
+                        type="file"
+                        accept=".pdf,.doc,.docx,.txt,.rtf,.md"
+                        onChange={handleFileUpload}
+                        className="hidden"
+                      />
+                      <label htmlFor="pdf-upload" className="cursor-pointer">
+                        <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                        <p className="text-sm text-gray-600">
+                          {loadingSource ? 'Loading document...' : pdfFile ? pdfFile.name : 'Click to upload or drag and drop'}
+                        </p>
+                        {reusedFrom && pdfFile && (
+                          <p className="text-xs text-indigo-600 mt-1">
+                            Reusing the source of "{reusedFrom}"
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-500 mt-1">
+                          PDF, DOC, DOCX, TXT, RTF, MD files supported
+                        </p>
+                      </label>
+                    </div>
                   </div>
-                  <Switch
-                    id="timed-quiz"
-                    checked={isTimedQuiz}
-                    onCheckedChange={setIsTimedQuiz}
-                  />
+
+                  <div className="text-center text-gray-500">
+                    <span className="bg-gray-50 px-3 py-1 rounded-full text-sm">OR</span>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="pdf-text">Paste Text Content</Label>
+                    <Textarea
+                      id="pdf-text"
+                      placeholder="Paste your text content here..."
+                      value={pdfText}
+                      onChange={(e) => {
+                        setPdfText(e.target.value)
+                        setLibraryDocumentId('')
+                      }}
+                      rows={8}
+                    />
+                  </div>
+
+                  {pdfFile && (
+                    <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                      <Label htmlFor="save-to-library" className="text-sm font-medium">
+                        Save extracted text to my library
+                      </Label>
+                      <Switch
+                        id="save-to-library"
+                        checked={saveExtractedText}
+                        onCheckedChange={setSaveExtractedText}
+                      />
+                    </div>
+                  )}
                 </div>
-                
-                {isTimedQuiz && (
+
+                <GenerationSettingsForm id="pdf" value={settings} onChange={setSettings} />
+
+                {documentSections}
+
+                <Button 
+                  onClick={generateQuizFromPDF}
+                  disabled={(!pdfFile && !pdfText.trim() && !libraryDocumentId) || loading || loadingSource}
+                  className="w-full"
+                  size="lg"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Generating Quiz...
+                    </>
+                  ) : (
+                    <>
+                      <BookOpen className="h-4 w-4 mr-2" />
+                      Generate Quiz
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="url" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Globe className="h-5 w-5 text-indigo-600" />
+                  Generate from a Web Page
+                </CardTitle>
+                <CardDescription>
+                  Fetch an article or page, check the text taken from it, then generate quiz questions
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="page-url">Page Address *</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="page-url"
+                      type="url"
+                      placeholder="https://en.wikipedia.org/wiki/Photosynthesis"
+                      value={pageUrl}
+                      onChange={(e) => {
+                        setPageUrl(e.target.value)
+                        setWebPage(null)
+                        setPageText('')
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') fetchPage()
+                      }}
+                    />
+                    <Button variant="outline" onClick={fetchPage} disabled={!pageUrl.trim() || fetchingPage || loading}>
+                      {fetchingPage ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Download className="h-4 w-4 mr-2" />
+                      )}
+                      Fetch Page
+                    </Button>
+                  </div>
+                </div>
+
+                {webPage && (
                   <div className="space-y-2">
-                    <Label htmlFor="time-limit">Time Limit (minutes)</Label>
-                    <Select value={timeLimit.toString()} onValueChange={(value) => setTimeLimit(parseInt(value))}>
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="10">10 minutes</SelectItem>
-                        <SelectItem value="15">15 minutes</SelectItem>
-                        <SelectItem value="20">20 minutes</SelectItem>
-                        <SelectItem value="30">30 minutes</SelectItem>
-                        <SelectItem value="45">45 minutes</SelectItem>
-                        <SelectItem value="60">60 minutes</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <div className="flex items-center justify-between gap-4">
+                      <Label htmlFor="page-text">Extracted Text</Label>
+                      <span className="text-xs text-gray-500">{formatCharacters(pageText.length)}</span>
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      From{' '}
+                      <a href={webPage.url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline">
+                        {webPage.title}
+                      </a>
+                      . Remove any menus, adverts or comments that were picked up; questions are only written from this text.
+                    </p>
+                    <Textarea
+                      id="page-text"
+                      value={pageText}
+                      onChange={(e) => setPageText(e.target.value)}
+                      rows={12}
+                    />
                   </div>
                 )}
-                
-                <p className="text-xs text-gray-600">
-                  {isTimedQuiz 
-                    ? `Quiz will have a ${timeLimit}-minute time limit. Students can submit early.`
-                    : 'Quiz will have no time limit. Students can take as long as needed.'
-                  }
-                </p>
-              </div>
 
-              <Button 
-                onClick={generateQuizFromTopic}
-                disabled={!topic.trim() || loading}
-                className="w-full"
-                size="lg"
-              >
-                {loading ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Generating Quiz...
-                  </>
-                ) : (
-                  <>
-                    <BookOpen className="h-4 w-4 mr-2" />
-                    Generate Quiz
-                  </>
-                )}
-              </Button>
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        <TabsContent value="pdf" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <FileText className="h-5 w-5 text-indigo-600" />
-                Generate from PDF
-              </CardTitle>
-              <CardDescription>
-                Upload a PDF document or paste text to generate quiz questions
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              <div className="space-y-4">
+                <GenerationSettingsForm id="url" value={settings} onChange={setSettings} />
+
+                {documentSections}
+
+                <Button 
+                  onClick={generateQuizFromUrl}
+                  disabled={!webPage || !pageText.trim() || loading}
+                  className="w-full"
+                  size="lg"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Generating Quiz...
+                    </>
+                  ) : (
+                    <>
+                      <BookOpen className="h-4 w-4 mr-2" />
+                      Generate Quiz
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="table" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Sheet className="h-5 w-5 text-indigo-600" />
+                  Generate from a Spreadsheet
+                </CardTitle>
+                <CardDescription>
+                  Upload a CSV or TSV file and choose which columns make the questions and answers
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
                 <div className="space-y-2">
-                  <Label htmlFor="pdf-upload">Upload PDF Document</Label>
+                  <Label htmlFor="table-upload">Upload Table</Label>
                   <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-gray-400 transition-colors">
                     <input
-                      id="pdf-upload"
+                      id="table-upload"
                       type="file"
-                      accept=".pdf,.doc,.docx,.txt,.rtf,.md"
-                      onChange={handleFileUpload}
+                      accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                      onChange={handleTableUpload}
                       className="hidden"
                     />
-                    <label htmlFor="pdf-upload" className="cursor-pointer">
-                      <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                    <label htmlFor="table-upload" className="cursor-pointer">
+                      <FileSpreadsheet className="h-8 w-8 text-gray-400 mx-auto mb-2" />
                       <p className="text-sm text-gray-600">
-                        {pdfFile ? pdfFile.name : 'Click to upload or drag and drop'}
+                        {dataTable ? `${tableFileName} (${dataTable.rows.length} row${dataTable.rows.length === 1 ? '' : 's'})` : 'Click to upload or drag and drop'}
                       </p>
                       <p className="text-xs text-gray-500 mt-1">
-                        PDF, DOC, DOCX, TXT, RTF, MD files supported
+                        CSV and TSV files supported. The first row holds the column names; every row becomes a question
                       </p>
                     </label>
                   </div>
                 </div>
 
-                <div className="text-center text-gray-500">
-                  <span className="bg-gray-50 px-3 py-1 rounded-full text-sm">OR</span>
-                </div>
+                {dataTable && (
+                  <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="table-prompt">Question From</Label>
+                        <Select
+                          value={columnMapping.prompt.toString()}
+                          onValueChange={(value) => setColumnMapping({ ...columnMapping, prompt: parseInt(value) })}
+                        >
+                          <SelectTrigger id="table-prompt">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {dataTable.headers.map((header, index) => (
+                              <SelectItem key={index} value={index.toString()}>{header}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="pdf-text">Paste Text Content</Label>
-                  <Textarea
-                    id="pdf-text"
-                    placeholder="Paste your text content here..."
-                    value={pdfText}
-                    onChange={(e) => setPdfText(e.target.value)}
-                    rows={8}
-                  />
-                </div>
-              </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="table-answer">Answer From</Label>
+                        <Select
+                          value={columnMapping.answer.toString()}
+                          onValueChange={(value) => setColumnMapping({ ...columnMapping, answer: parseInt(value) })}
+                        >
+                          <SelectTrigger id="table-answer">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {dataTable.headers.map((header, index) => (
+                              <SelectItem key={index} value={index.toString()}>{header}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="pdf-difficulty">Difficulty Level</Label>
-                  <Select value={difficulty} onValueChange={(value: 'easy' | 'medium' | 'hard') => setDifficulty(value)}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="easy">Easy</SelectItem>
-                      <SelectItem value="medium">Medium</SelectItem>
-                      <SelectItem value="hard">Hard</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="table-explanation">Explanation From (Optional)</Label>
+                        <Select
+                          value={columnMapping.explanation === null ? 'none' : columnMapping.explanation.toString()}
+                          onValueChange={(value) => setColumnMapping({ ...columnMapping, explanation: value === 'none' ? null : parseInt(value) })}
+                        >
+                          <SelectTrigger id="table-explanation">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">No explanation column</SelectItem>
+                            {dataTable.headers.map((header, index) => (
+                              <SelectItem key={index} value={index.toString()}>{header}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="pdf-questionCount">Number of Questions</Label>
-                  <Select value={questionCount.toString()} onValueChange={(value) => setQuestionCount(parseInt(value))}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="5">5 Questions</SelectItem>
-                      <SelectItem value="10">10 Questions</SelectItem>
-                      <SelectItem value="15">15 Questions</SelectItem>
-                      <SelectItem value="20">20 Questions</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="table-wording">Question Wording</Label>
+                      <Input
+                        id="table-wording"
+                        placeholder={DEFAULT_TABLE_WORDING}
+                        value={tableWording}
+                        onChange={(e) => setTableWording(e.target.value)}
+                      />
+                      <p className="text-xs text-gray-600">
+                        {'{{prompt}}'} is replaced by the question cell and {'{{column}}'} by the answer column's name
+                      </p>
+                    </div>
 
-              {/* Timer Settings for PDF */}
-              <div className="space-y-4 p-4 bg-gray-50 rounded-lg">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Clock className="h-4 w-4 text-indigo-600" />
-                    <Label htmlFor="pdf-timed-quiz" className="text-sm font-medium">
-                      Timed Quiz
-                    </Label>
-                  </div>
-                  <Switch
-                    id="pdf-timed-quiz"
-                    checked={isTimedQuiz}
-                    onCheckedChange={setIsTimedQuiz}
-                  />
-                </div>
-                
-                {isTimedQuiz && (
-                  <div className="space-y-2">
-                    <Label htmlFor="pdf-time-limit">Time Limit (minutes)</Label>
-                    <Select value={timeLimit.toString()} onValueChange={(value) => setTimeLimit(parseInt(value))}>
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="10">10 minutes</SelectItem>
-                        <SelectItem value="15">15 minutes</SelectItem>
-                        <SelectItem value="20">20 minutes</SelectItem>
-                        <SelectItem value="30">30 minutes</SelectItem>
-                        <SelectItem value="45">45 minutes</SelectItem>
-                        <SelectItem value="60">60 minutes</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    {tableExample && (
+                      <p className="text-sm text-gray-600">
+                        Example: <span className="font-medium text-gray-900">{tableExample.question}</span> → {tableExample.answer}
+                      </p>
+                    )}
+
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <Label htmlFor="polish-table" className="text-sm font-medium">
+                          Polish wording with AI
+                        </Label>
+                        <p className="text-xs text-gray-600">
+                          Only the question and explanation text is reworded; options and answers always come from the table
+                        </p>
+                      </div>
+                      <Switch
+                        id="polish-table"
+                        checked={polishTable}
+                        onCheckedChange={setPolishTable}
+                      />
+                    </div>
                   </div>
                 )}
-                
-                <p className="text-xs text-gray-600">
-                  {isTimedQuiz 
-                    ? `Quiz will have a ${timeLimit}-minute time limit. Students can submit early.`
-                    : 'Quiz will have no time limit. Students can take as long as needed.'
-                  }
-                </p>
-              </div>
 
-              <Button 
-                onClick={generateQuizFromPDF}
-                disabled={(!pdfFile && !pdfText.trim()) || loading}
-                className="w-full"
-                size="lg"
-              >
-                {loading ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Generating Quiz...
-                  </>
-                ) : (
-                  <>
-                    <BookOpen className="h-4 w-4 mr-2" />
-                    Generate Quiz
-                  </>
+                <GenerationSettingsForm id="table" value={settings} onChange={setSettings} />
+
+                {questionTypes.some(type => !TABLE_QUESTION_TYPES.includes(type)) && (
+                  <p className="text-sm text-amber-700">
+                    Multi-select questions are not built from spreadsheets, since every row has a single answer.
+                    {questionTypes.every(type => !TABLE_QUESTION_TYPES.includes(type)) && ' Multiple choice questions are built instead.'}
+                  </p>
                 )}
-              </Button>
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
+
+                <Button 
+                  onClick={generateQuizFromTable}
+                  disabled={!dataTable || loading}
+                  className="w-full"
+                  size="lg"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Generating Quiz...
+                    </>
+                  ) : (
+                    <>
+                      <BookOpen className="h-4 w-4 mr-2" />
+                      Generate Quiz
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+
+      {loading && (
+        <GenerationProgress
+          questions={liveQuestions}
+          total={generationTotal || questionCount}
+          cancelling={cancelling}
+          onCancel={cancelGeneration}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Link } from 'react-router-dom'
 import { 
   Clock, 
@@ -8,7 +8,8 @@ import {
   Filter,
   BookOpen,
   TrendingUp,
-  Eye
+  Eye,
+  RotateCcw
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -16,86 +17,151 @@ import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { blink } from '@/blink/client'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination'
+import { attemptRepository, auth, quizRepository, type AttemptSummary } from '@/lib/data'
+import { isExamAttempt } from '@/lib/attempts'
 import { Quiz, QuizAttempt } from '@/types'
 
+const PAGE_SIZE = 20
+
+type DateRange = 'all' | '7d' | '30d' | '90d'
+
+const RANGE_DAYS: Record<Exclude<DateRange, 'all'>, number> = { '7d': 7, '30d': 30, '90d': 90 }
+
+// Page numbers to show: the first, the last and a window around the current one
+const visiblePages = (current: number, total: number): (number | 'gap')[] => {
+  const pages: (number | 'gap')[] = []
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 1) {
+      pages.push(page)
+    } else if (pages[pages.length - 1] !== 'gap') {
+      pages.push('gap')
+    }
+  }
+  return pages
+}
+
 export function QuizHistory() {
+  const [summaries, setSummaries] = useState<AttemptSummary[]>([])
   const [attempts, setAttempts] = useState<(QuizAttempt & { quiz?: Quiz })[]>([])
+  const [totalMatching, setTotalMatching] = useState(0)
+  const [page, setPage] = useState(1)
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
   const [difficultyFilter, setDifficultyFilter] = useState<string>('all')
+  const [dateRange, setDateRange] = useState<DateRange>('all')
   const [sortBy, setSortBy] = useState<'date' | 'score'>('date')
   const [user, setUser] = useState<any>(null)
+  // Only the latest history request may update the page; older ones finish unseen
+  const historyRequestRef = useRef(0)
+  // The whole history, which quiz filters wait for instead of depending on
+  // `summaries`, so a page is neither loaded twice nor filtered too early
+  const summariesRef = useRef<Promise<AttemptSummary[]>>(Promise.resolve([]))
+
+  // Stats cover the whole history, independent of the filters
+  const loadSummaries = useCallback(async () => {
+    if (!user?.id) return
+    const request = attemptRepository.listSummaries(user.id)
+    summariesRef.current = request
+
+    try {
+      setSummaries(await request)
+    } catch (error) {
+      console.error('Error loading quiz history stats:', error)
+    }
+  }, [user?.id])
 
   const loadHistory = useCallback(async () => {
     if (!user?.id) return
+    const request = ++historyRequestRef.current
+    const isStale = () => request !== historyRequestRef.current
     
     try {
       setLoading(true)
-      
-      // Load quiz attempts
-      const attemptsData = await blink.db.quizAttempts.list({
-        where: { userId: user.id },
-        orderBy: { completedAt: 'desc' },
-        limit: 100
-      })
 
-      // Load quiz details for each attempt
-      const quizIds = [...new Set(attemptsData.map(attempt => attempt.quizId))]
-      const quizzesData = await Promise.all(
-        quizIds.map(async (quizId) => {
-          const quiz = await blink.db.quizzes.list({
-            where: { id: quizId },
-            limit: 1
-          })
-          return quiz[0]
+      // Difficulty and search apply to the quizzes, so resolve them to quiz ids first
+      const isFiltered = debouncedSearch.trim() !== '' || difficultyFilter !== 'all'
+      const quizIds = isFiltered
+        ? await quizRepository.findIds([...new Set((await summariesRef.current).map(attempt => attempt.quizId))], {
+          search: debouncedSearch,
+          difficulty: difficultyFilter === 'all' ? undefined : (difficultyFilter as Quiz['difficulty'])
         })
-      )
+        : undefined
+
+      const { attempts: pageAttempts, total } = await attemptRepository.listPage(user.id, {
+        quizIds,
+        completedAfter: dateRange === 'all'
+          ? undefined
+          : new Date(Date.now() - RANGE_DAYS[dateRange] * 24 * 60 * 60 * 1000).toISOString(),
+        sortBy,
+        page,
+        pageSize: PAGE_SIZE
+      })
+
+      // Load quiz details for the attempts on this page
+      const quizzesData = await quizRepository.getMany(pageAttempts.map(attempt => attempt.quizId))
+      if (isStale()) return
 
       // Combine attempts with quiz data
-      const attemptsWithQuizzes = attemptsData.map(attempt => ({
+      const attemptsWithQuizzes = pageAttempts.map(attempt => ({
         ...attempt,
-        answers: typeof attempt.answers === 'string' ? JSON.parse(attempt.answers) : attempt.answers,
-        quiz: quizzesData.find(quiz => quiz?.id === attempt.quizId)
+        quiz: quizzesData.get(attempt.quizId)
       }))
 
       setAttempts(attemptsWithQuizzes)
+      setTotalMatching(total)
     } catch (error) {
-      console.error('Error loading quiz history:', error)
+      if (!isStale()) console.error('Error loading quiz history:', error)
     } finally {
-      setLoading(false)
+      if (!isStale()) setLoading(false)
     }
-  }, [user?.id])
+  }, [user?.id, debouncedSearch, difficultyFilter, dateRange, sortBy, page])
 
+  // Any filter change starts again from the first page, in the same update so
+  // the old page is never loaded with the new filters
   useEffect(() => {
-    const unsubscribe = blink.auth.onAuthStateChanged((state) => {
+    const timeout = setTimeout(() => {
+      setDebouncedSearch(searchTerm)
+      setPage(1)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm])
+
+  const changeFilter = <T,>(setFilter: (value: T) => void) => (value: T) => {
+    setFilter(value)
+    setPage(1)
+  }
+
+  useEffect(() => {
+    const unsubscribe = auth.onAuthStateChanged((state) => {
       setUser(state.user)
     })
     return unsubscribe
   }, [])
 
+  useEffect(() => {
+    if (user?.id) {
+      loadSummaries()
+    }
+  }, [user?.id, loadSummaries])
+
   useEffect(() => {
     if (user?.id) {
       loadHistory()
     }
   }, [user?.id, loadHistory])
 
-  const filteredAttempts = attempts.filter(attempt => {
-    const matchesSearch = !searchTerm || 
-      attempt.quiz?.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      attempt.quiz?.topic.toLowerCase().includes(searchTerm.toLowerCase())
-    
-    const matchesDifficulty = difficultyFilter === 'all' || 
-      attempt.quiz?.difficulty === difficultyFilter
-
-    return matchesSearch && matchesDifficulty
-  }).sort((a, b) => {
-    if (sortBy === 'date') {
-      return new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
-    } else {
-      return (Number(b.score) || 0) - (Number(a.score) || 0)
-    }
-  })
+  const totalPages = Math.max(1, Math.ceil(totalMatching / PAGE_SIZE))
+  const isFiltering = searchTerm !== '' || difficultyFilter !== 'all' || dateRange !== 'all'
 
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600 bg-green-50'
@@ -119,13 +185,13 @@ export function QuizHistory() {
   }
 
   const calculateStats = () => {
-    if (attempts.length === 0) return { totalAttempts: 0, averageScore: 0, bestScore: 0, totalTime: 0 }
+    if (summaries.length === 0) return { totalAttempts: 0, averageScore: 0, bestScore: 0, totalTime: 0 }
     
-    const totalAttempts = attempts.length
-    const scores = attempts.map(attempt => Number(attempt.score) || 0)
-    const averageScore = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
-    const bestScore = Math.max(...scores)
-    const totalTime = attempts.reduce((sum, attempt) => sum + (Number(attempt.timeSpent) || 0), 0)
+    const totalAttempts = summaries.length
+    const scores = summaries.filter(isExamAttempt).map(attempt => attempt.score)
+    const averageScore = scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0
+    const bestScore = scores.length > 0 ? Math.max(...scores) : 0
+    const totalTime = summaries.reduce((sum, attempt) => sum + attempt.timeSpent, 0)
     
     return { totalAttempts, averageScore, bestScore, totalTime }
   }
@@ -230,7 +296,7 @@ export function QuizHistory() {
                 />
               </div>
             </div>
-            <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
+            <Select value={difficultyFilter} onValueChange={changeFilter(setDifficultyFilter)}>
               <SelectTrigger className="w-full sm:w-[180px]">
                 <SelectValue placeholder="Difficulty" />
               </SelectTrigger>
@@ -241,7 +307,18 @@ export function QuizHistory() {
                 <SelectItem value="hard">Hard</SelectItem>
               </SelectContent>
             </Select>
-            <Select value={sortBy} onValueChange={(value: 'date' | 'score') => setSortBy(value)}>
+            <Select value={dateRange} onValueChange={changeFilter<DateRange>(setDateRange)}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder="Date range" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All time</SelectItem>
+                <SelectItem value="7d">Last 7 days</SelectItem>
+                <SelectItem value="30d">Last 30 days</SelectItem>
+                <SelectItem value="90d">Last 90 days</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={sortBy} onValueChange={changeFilter<'date' | 'score'>(setSortBy)}>
               <SelectTrigger className="w-full sm:w-[180px]">
                 <SelectValue placeholder="Sort by" />
               </SelectTrigger>
@@ -259,7 +336,9 @@ export function QuizHistory() {
         <CardHeader>
           <CardTitle>Quiz Attempts</CardTitle>
           <CardDescription>
-            {filteredAttempts.length} of {attempts.length} attempts shown
+            {totalMatching > 0
+              ? `Showing ${(page - 1) * PAGE_SIZE + 1}–${Math.min(page * PAGE_SIZE, totalMatching)} of ${totalMatching} attempts`
+              : `0 of ${summaries.length} attempts shown`}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -271,7 +350,8 @@ export function QuizHistory() {
                 </div>
               ))}
             </div>
-          ) : filteredAttempts.length > 0 ? (
+          ) : attempts.length > 0 ? (
+            <div className="space-y-4">
             <div className="rounded-md border">
               <Table>
                 <TableHeader>
@@ -285,12 +365,18 @@ export function QuizHistory() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredAttempts.map((attempt) => (
+                  {attempts.map((attempt) => (
                     <TableRow key={attempt.id}>
                       <TableCell>
                         <div>
-                          <div className="font-medium text-gray-900">
+                          <div className="font-medium text-gray-900 flex items-center gap-2">
                             {attempt.quiz?.title || 'Unknown Quiz'}
+                            {attempt.mode === 'practice' && (
+                              <Badge variant="outline" className="text-xs">Practice</Badge>
+                            )}
+                            {attempt.parentAttemptId && (
+                              <Badge variant="outline" className="text-xs">Retry</Badge>
+                            )}
                           </div>
                           <div className="text-sm text-gray-600">
                             {attempt.quiz?.topic || 'No topic'}
@@ -303,14 +389,14 @@ export function QuizHistory() {
                         </Badge>
                       </TableCell>
                       <TableCell>
-                        <div className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getScoreColor(Number(attempt.score) || 0)}`}>
+                        <div className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getScoreColor(attempt.score)}`}>
                           {attempt.score}%
                         </div>
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center text-sm text-gray-600">
                           <Clock className="h-4 w-4 mr-1" />
-                          {formatTime(Number(attempt.timeSpent) || 0)}
+                          {formatTime(attempt.timeSpent)}
                         </div>
                       </TableCell>
                       <TableCell>
@@ -320,31 +406,87 @@ export function QuizHistory() {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Link to={`/quiz/${attempt.quizId}`}>
-                          <Button variant="outline" size="sm">
-                            <Eye className="h-4 w-4 mr-1" />
-                            Retake
-                          </Button>
-                        </Link>
+                        <div className="flex gap-2">
+                          <Link to={`/attempt/${attempt.id}`}>
+                            <Button variant="outline" size="sm">
+                              <Eye className="h-4 w-4 mr-1" />
+                              View
+                            </Button>
+                          </Link>
+                          <Link to={`/quiz/${attempt.quizId}`}>
+                            <Button variant="ghost" size="sm">
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Retake
+                            </Button>
+                          </Link>
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             </div>
+
+            {totalPages > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      aria-disabled={page === 1}
+                      className={page === 1 ? 'pointer-events-none opacity-50' : undefined}
+                      onClick={(e) => {
+                        e.preventDefault()
+                        setPage(prev => Math.max(1, prev - 1))
+                      }}
+                    />
+                  </PaginationItem>
+                  {visiblePages(page, totalPages).map((item, index) => (
+                    <PaginationItem key={item === 'gap' ? `gap-${index}` : item}>
+                      {item === 'gap' ? (
+                        <PaginationEllipsis />
+                      ) : (
+                        <PaginationLink
+                          href="#"
+                          isActive={item === page}
+                          onClick={(e) => {
+                            e.preventDefault()
+                            setPage(item)
+                          }}
+                        >
+                          {item}
+                        </PaginationLink>
+                      )}
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      aria-disabled={page === totalPages}
+                      className={page === totalPages ? 'pointer-events-none opacity-50' : undefined}
+                      onClick={(e) => {
+                        e.preventDefault()
+                        setPage(prev => Math.min(totalPages, prev + 1))
+                      }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+            </div>
           ) : (
             <div className="text-center py-12">
               <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <h3 className="text-lg font-medium text-gray-900 mb-2">
-                {searchTerm || difficultyFilter !== 'all' ? 'No matching quiz attempts' : 'No quiz attempts yet'}
+                {isFiltering ? 'No matching quiz attempts' : 'No quiz attempts yet'}
               </h3>
               <p className="text-gray-600 mb-4">
-                {searchTerm || difficultyFilter !== 'all' 
+                {isFiltering 
                   ? 'Try adjusting your search or filter criteria.'
                   : 'Start by generating and taking your first quiz!'
                 }
               </p>
-              {!searchTerm && difficultyFilter === 'all' && (
+              {!isFiltering && (
                 <Link to="/generate">
                   <Button>
                     <BookOpen className="h-4 w-4 mr-2" />
@@ -0,0 +1,223 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ArrowRight, Brain, CheckCircle } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Badge } from '@/components/ui/badge'
+import { AnswerFeedback } from '@/components/quiz/AnswerFeedback'
+import { QuestionInput } from '@/components/quiz/QuestionInput'
+import { auth, quizRepository, reviewCardRepository } from '@/lib/data'
+import { hasAnswer, isAnswerCorrect } from '@/lib/questions'
+import {
+  formatInterval,
+  isDue,
+  QUALITY_FORGOTTEN,
+  REVIEW_GRADES,
+  scheduleReview,
+  syncReviewCards,
+  type ReviewQuality
+} from '@/lib/review'
+import type { Question, QuestionAnswer, Quiz, ReviewCard } from '@/types'
+
+interface ReviewItem {
+  card: ReviewCard
+  quiz: Quiz
+  question: Question
+}
+
+export function Review() {
+  const navigate = useNavigate()
+
+  const [queue, setQueue] = useState<ReviewItem[]>([])
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [answer, setAnswer] = useState<QuestionAnswer | undefined>(undefined)
+  const [checked, setChecked] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [rememberedCount, setRememberedCount] = useState(0)
+  const [nextDueAt, setNextDueAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setLoading(true)
+      const user = await auth.me()
+      const cards = await syncReviewCards(user.id)
+
+      const due = cards.filter(card => isDue(card)).sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+      const upcoming = cards.filter(card => !isDue(card)).map(card => card.dueAt).sort()
+      setNextDueAt(upcoming[0] ?? null)
+
+      const quizzes = await quizRepository.getMany(due.map(card => card.quizId))
+
+      const items: ReviewItem[] = []
+      const orphaned: ReviewCard[] = []
+      due.forEach(card => {
+        const quiz = quizzes.get(card.quizId)
+        const question = quiz?.questions.find(item => item.id === card.questionId)
+        if (quiz && question) items.push({ card, quiz, question })
+        else orphaned.push(card)
+      })
+      setQueue(items)
+
+      // Cards left behind by quizzes or questions deleted earlier would keep counting as due
+      Promise.all(orphaned.map(card => reviewCardRepository.delete(card.id)))
+        .catch((error: unknown) => console.warn('Could not remove orphaned review cards:', error))
+    } catch (error) {
+      console.error('Error loading review queue:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  const current = queue[currentIndex]
+
+  const handleGrade = async (quality: ReviewQuality) => {
+    if (!current) return
+
+    try {
+      setSaving(true)
+      const now = new Date()
+      await reviewCardRepository.update(current.card.id, {
+        ...scheduleReview(current.card, quality, now),
+        lastReviewedAt: now.toISOString()
+      })
+
+      if (quality !== QUALITY_FORGOTTEN) setRememberedCount(prev => prev + 1)
+      setCurrentIndex(prev => prev + 1)
+      setAnswer(undefined)
+      setChecked(false)
+    } catch (error) {
+      console.error('Error saving review:', error)
+      alert('Failed to save your review. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Loading Reviews...</h2>
+          <p className="text-gray-600">Please wait while we gather today's questions</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!current) {
+    const reviewed = queue.length
+    return (
+      <div className="max-w-2xl mx-auto">
+        <Card className="text-center">
+          <CardHeader>
+            <div className="mx-auto mb-4">
+              <CheckCircle className="h-16 w-16 text-green-500" />
+            </div>
+            <CardTitle className="text-3xl">All Caught Up!</CardTitle>
+            <CardDescription>
+              {reviewed > 0
+                ? `You reviewed ${reviewed} question${reviewed === 1 ? '' : 's'} and remembered ${rememberedCount}.`
+                : 'There are no questions due for review right now.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {nextDueAt && (
+              <p className="text-sm text-gray-600">
+                Next review due {new Date(nextDueAt).toLocaleString()}
+              </p>
+            )}
+            <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              <Button variant="outline" onClick={() => navigate('/')}>
+                Back to Dashboard
+              </Button>
+              <Button onClick={() => navigate('/generate')}>
+                Generate New Quiz
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  const progress = (currentIndex / queue.length) * 100
+  const isCorrect = checked && isAnswerCorrect(current.question, answer)
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Brain className="h-5 w-5 text-indigo-600" />
+            Review
+          </CardTitle>
+          <CardDescription>Questions from your past quizzes that are due today</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>Question {currentIndex + 1} of {queue.length}</span>
+              <span>{Math.round(progress)}% Complete</span>
+            </div>
+            <Progress value={progress} className="h-2" />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-xl">{current.quiz.title}</CardTitle>
+            <Badge variant="outline">
+              {current.card.repetitions === 0 ? 'Learning' : `Every ${formatInterval(current.card.interval)}`}
+            </Badge>
+          </div>
+          <CardDescription className="text-lg">
+            {current.question.question}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <QuestionInput
+            question={current.question}
+            answer={answer}
+            onChange={setAnswer}
+            disabled={checked}
+          />
+
+          {checked && <AnswerFeedback question={current.question} answer={answer} quiz={current.quiz} />}
+
+          <div className="flex justify-end gap-2 pt-6">
+            {!checked ? (
+              <Button onClick={() => setChecked(true)} disabled={!hasAnswer(answer)}>
+                Check Answer
+              </Button>
+            ) : isCorrect ? (
+              REVIEW_GRADES.map(grade => (
+                <Button
+                  key={grade.quality}
+                  variant={grade.quality === 4 ? 'default' : 'outline'}
+                  onClick={() => handleGrade(grade.quality)}
+                  disabled={saving}
+                >
+                  {grade.label} · {formatInterval(scheduleReview(current.card, grade.quality).interval)}
+                </Button>
+              ))
+            ) : (
+              <Button onClick={() => handleGrade(QUALITY_FORGOTTEN)} disabled={saving}>
+                Next
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
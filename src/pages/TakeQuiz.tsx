@@ -1,58 +1,155 @@
-import { useState, useEffect, useCallback } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
-import { Clock, CheckCircle, XCircle, ArrowRight, ArrowLeft, Timer } from 'lucide-react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
+import { Clock, CheckCircle, XCircle, ArrowRight, ArrowLeft, Timer, Pencil, PlayCircle, RotateCcw, GraduationCap, Lightbulb, Repeat, AlertTriangle } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
-import { blink } from '@/blink/client'
-import { Quiz } from '@/types'
+import { AnswerFeedback } from '@/components/quiz/AnswerFeedback'
+import { QuestionInput } from '@/components/quiz/QuestionInput'
+import { QuestionReview } from '@/components/quiz/QuestionReview'
+import {
+  attemptQuestions,
+  clearLocalProgress,
+  createAttemptId,
+  loadLocalProgress,
+  missedQuestions,
+  progressFromAttempt,
+  remainingSeconds,
+  saveLocalProgress,
+  type AttemptProgress
+} from '@/lib/attempts'
+import { attemptRepository, auth, quizRepository } from '@/lib/data'
+import { hasAnswer, isAnswerCorrect } from '@/lib/questions'
+import { addReviewCards } from '@/lib/review'
+import type { Quiz, QuizMode, QuestionAnswer, QuestionType } from '@/types'
+
+// In practice mode these types lock as soon as an option is picked; the
+// others need an explicit "Check Answer"
+const INSTANT_CHECK_TYPES: QuestionType[] = ['multiple_choice', 'true_false']
+
+interface RetryTarget {
+  parentAttemptId: string
+  questionIds: string[]
+}
+
+// Only exam runs of a timed quiz have a clock; practice runs and retries are never timed
+const isTimedProgress = (quiz: Quiz, progress: AttemptProgress) =>
+  quiz.isTimed && !!quiz.timeLimit && progress.mode === 'exam' && !progress.parentAttemptId
+
+/**
+ * Creates the `in_progress` attempt row that answers are synced to while the
+ * quiz is taken. `startedAt` carries the clock over from an attempt that was
+ * started over.
+ */
+async function createInProgressAttempt(quiz: Quiz, userId: string, mode: QuizMode, retry: RetryTarget | null, startedAt?: string) {
+  const now = new Date()
+  const attemptId = createAttemptId()
+
+  try {
+    await attemptRepository.create({
+      id: attemptId,
+      quizId: quiz.id,
+      userId,
+      answers: {},
+      score: 0,
+      totalQuestions: retry ? retry.questionIds.length : quiz.questions.length,
+      timeSpent: 0,
+      status: 'in_progress',
+      mode,
+      ...retry,
+      currentQuestionIndex: 0,
+      startedAt: startedAt ?? now.toISOString(),
+      createdAt: now.toISOString()
+    })
+  } catch (error) {
+    // The local copy still lets the attempt be resumed on this device
+    console.warn('Could not save in-progress attempt:', error)
+  }
+
+  return { attemptId, startTime: startedAt ? new Date(startedAt) : now }
+}
 
 export function TakeQuiz() {
   const { id } = useParams()
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const retryOf = searchParams.get('retry')
   
   const [quiz, setQuiz] = useState<Quiz | null>(null)
   const [loading, setLoading] = useState(true)
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
-  const [answers, setAnswers] = useState<Record<string, number>>({})
+  const [answers, setAnswers] = useState<Record<string, QuestionAnswer>>({})
   const [timeLeft, setTimeLeft] = useState(0)
   const [startTime, setStartTime] = useState<Date | null>(null)
   const [isCompleted, setIsCompleted] = useState(false)
   const [results, setResults] = useState<{ score: number; correctAnswers: number; totalQuestions: number } | null>(null)
   const [showExplanations, setShowExplanations] = useState(false)
+  const [isOwner, setIsOwner] = useState(false)
+  const [attemptId, setAttemptId] = useState('')
+  const [savedProgress, setSavedProgress] = useState<AttemptProgress | null>(null)
+  const [mode, setMode] = useState<QuizMode>('exam')
+  // Practice answers that have not been checked yet; only checked answers go into `answers`
+  const [practiceDrafts, setPracticeDrafts] = useState<Record<string, QuestionAnswer>>({})
+  const [retry, setRetry] = useState<RetryTarget | null>(null)
+  // Set once the time limit runs out, so the attempt is submitted only once
+  const [timeUp, setTimeUp] = useState(false)
+  const [submitError, setSubmitError] = useState('')
+  const [starting, setStarting] = useState(false)
+  const submittingRef = useRef(false)
+
+  // A retry only asks the questions that were missed in the parent attempt
+  const questions = useMemo(
+    () => (quiz ? attemptQuestions(quiz.questions, { questionIds: retry?.questionIds }) : []),
+    [quiz, retry]
+  )
 
   const loadQuiz = useCallback(async () => {
     if (!id) return
     
     try {
       setLoading(true)
-      const quizData = await blink.db.quizzes.list({
-        where: { id },
-        limit: 1
-      })
+      // Retrying from the results screen reuses this page, so start from a clean slate
+      setStartTime(null)
+      setIsCompleted(false)
+      setTimeUp(false)
+      setSubmitError('')
+      setResults(null)
+      setShowExplanations(false)
+      setAttemptId('')
+      setAnswers({})
+      setPracticeDrafts({})
+      setCurrentQuestionIndex(0)
+      const parsedQuiz = await quizRepository.get(id)
       
-      if (quizData.length > 0) {
-        const quizItem = quizData[0]
-        // Parse questions from JSON string
-        const parsedQuiz = {
-          ...quizItem,
-          questions: typeof quizItem.questions === 'string' 
-            ? JSON.parse(quizItem.questions) 
-            : quizItem.questions
-        }
+      if (parsedQuiz) {
         setQuiz(parsedQuiz)
-        
-        // Set timer based on quiz settings
-        if (Number(parsedQuiz.isTimed) > 0 && parsedQuiz.timeLimit) {
-          // Convert minutes to seconds
-          setTimeLeft(parsedQuiz.timeLimit * 60)
-        } else {
-          // No time limit
-          setTimeLeft(0)
+        setMode(parsedQuiz.defaultMode ?? 'exam')
+
+        const user = await auth.me()
+        setIsOwner(parsedQuiz.userId === user.id)
+
+        let retryTarget: RetryTarget | null = null
+        if (retryOf) {
+          const parent = await attemptRepository.get(retryOf)
+          if (parent && parent.quizId === parsedQuiz.id && parent.userId === user.id) {
+            const missed = missedQuestions(attemptQuestions(parsedQuiz.questions, parent), parent.answers)
+            if (missed.length > 0) {
+              retryTarget = { parentAttemptId: parent.id, questionIds: missed.map(question => question.id) }
+            }
+          }
         }
-        
-        setStartTime(new Date())
+        setRetry(retryTarget)
+
+        // Look for an unfinished attempt, preferring whichever copy is newer
+        const remoteAttempt = await attemptRepository.findInProgress(user.id, parsedQuiz.id)
+        const remote = remoteAttempt ? progressFromAttempt(remoteAttempt) : null
+        const local = loadLocalProgress(parsedQuiz.id)
+        const saved = [local, remote]
+          .filter((progress): progress is AttemptProgress => progress !== null)
+          .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())[0]
+
+        setSavedProgress(saved ?? null)
       } else {
         navigate('/generate')
       }
@@ -62,86 +159,208 @@ export function TakeQuiz() {
     } finally {
       setLoading(false)
     }
-  }, [id, navigate])
+  }, [id, retryOf, navigate])
+
+  const startAttempt = async () => {
+    if (!quiz || starting) return
+    setStarting(true)
+
+    try {
+      const user = await auth.me()
+
+      // Starting over keeps the unfinished attempt as `abandoned`, and a timed
+      // exam keeps its clock so starting over cannot buy more time
+      let startedAt: string | undefined
+      if (savedProgress) {
+        if (isTimedProgress(quiz, savedProgress)) startedAt = savedProgress.startedAt
+        clearLocalProgress(quiz.id)
+        try {
+          await attemptRepository.update(savedProgress.attemptId, { status: 'abandoned' })
+        } catch (error) {
+          console.warn('Could not mark unfinished attempt as abandoned:', error)
+        }
+      }
+
+      const attempt = await createInProgressAttempt(quiz, user.id, mode, retry, startedAt)
+
+      setAttemptId(attempt.attemptId)
+      setAnswers({})
+      setPracticeDrafts({})
+      setCurrentQuestionIndex(0)
+      setSavedProgress(null)
+      setStartTime(attempt.startTime)
+    } catch (error) {
+      console.error('Error starting quiz:', error)
+      alert(`Failed to start quiz: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const resumeAttempt = () => {
+    if (!savedProgress) return
+
+    const resumedRetry = savedProgress.parentAttemptId && savedProgress.questionIds
+      ? { parentAttemptId: savedProgress.parentAttemptId, questionIds: savedProgress.questionIds }
+      : null
+    const questionCount = quiz ? attemptQuestions(quiz.questions, { questionIds: resumedRetry?.questionIds }).length : 1
+
+    setAttemptId(savedProgress.attemptId)
+    setMode(savedProgress.mode)
+    setRetry(resumedRetry)
+    setAnswers(savedProgress.answers)
+    setCurrentQuestionIndex(Math.min(savedProgress.currentQuestionIndex, questionCount - 1))
+    setStartTime(new Date(savedProgress.startedAt))
+    setSavedProgress(null)
+  }
 
   const handleSubmitQuiz = useCallback(async () => {
-    if (!quiz || !startTime) return
+    if (!quiz || !startTime || submittingRef.current) return
+    submittingRef.current = true
+    setSubmitError('')
 
     const endTime = new Date()
     const timeSpent = Math.floor((endTime.getTime() - startTime.getTime()) / 1000)
     
     // Calculate score
     let correctAnswers = 0
-    quiz.questions.forEach(question => {
-      if (answers[question.id] === question.correctAnswer) {
+    questions.forEach(question => {
+      if (isAnswerCorrect(question, answers[question.id])) {
         correctAnswers++
       }
     })
     
-    const score = Math.round((correctAnswers / quiz.questions.length) * 100)
+    const score = Math.round((correctAnswers / questions.length) * 100)
     
     try {
       // Get current user
-      const user = await blink.auth.me()
+      const user = await auth.me()
       console.log('Submitting quiz attempt for user:', user.id)
       console.log('Quiz ID:', quiz.id)
       console.log('Answers:', answers)
       console.log('Score:', score)
       
-      // Save quiz attempt
-      const attempt = await blink.db.quizAttempts.create({
-        id: `attempt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        quizId: quiz.id,
-        userId: user.id,
-        answers: JSON.stringify(answers),
+      const completed = {
+        answers,
         score: score,
-        totalQuestions: quiz.questions.length,
+        totalQuestions: questions.length,
         timeSpent: timeSpent,
+        status: 'completed' as const,
+        mode,
+        currentQuestionIndex,
         completedAt: endTime.toISOString(),
-        createdAt: endTime.toISOString(),
         updatedAt: endTime.toISOString()
-      })
+      }
+
+      // Complete the in-progress row, or create one if it was never saved
+      const savedAttemptId = attemptId || createAttemptId()
+      const existing = attemptId ? await attemptRepository.get(attemptId) : null
+      const attempt = existing
+        ? await attemptRepository.update(attemptId, completed)
+        : await attemptRepository.create({
+          id: savedAttemptId,
+          quizId: quiz.id,
+          userId: user.id,
+          startedAt: startTime.toISOString(),
+          createdAt: endTime.toISOString(),
+          ...retry,
+          ...completed
+        })
       
       console.log('Quiz attempt saved successfully:', attempt)
-      setResults({ score, correctAnswers, totalQuestions: quiz.questions.length })
+      clearLocalProgress(quiz.id)
+      addReviewCards(user.id, quiz.id, questions, answers)
+        .catch((error: unknown) => console.warn('Could not add review cards:', error))
+      setAttemptId(savedAttemptId)
+      setResults({ score, correctAnswers, totalQuestions: questions.length })
       setIsCompleted(true)
     } catch (error) {
       console.error('Error submitting quiz:', error)
-      alert(`Failed to submit quiz: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`)
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      setSubmitError(message)
+      // Once the time is up the banner shows the error and offers another try
+      if (!timeUp) alert(`Failed to submit quiz: ${message}. Please try again.`)
+    } finally {
+      submittingRef.current = false
     }
-  }, [quiz, startTime, answers])
+  }, [quiz, questions, startTime, answers, attemptId, currentQuestionIndex, mode, retry, timeUp])
 
   useEffect(() => {
     loadQuiz()
   }, [loadQuiz])
 
-  // Timer countdown (only for timed quizzes)
+  // Save progress locally on every change and to the attempt row shortly after
+  useEffect(() => {
+    if (!quiz || !startTime || !attemptId || isCompleted) return
+
+    const updatedAt = new Date().toISOString()
+    saveLocalProgress({
+      attemptId,
+      quizId: quiz.id,
+      mode,
+      answers,
+      currentQuestionIndex,
+      parentAttemptId: retry?.parentAttemptId,
+      questionIds: retry?.questionIds,
+      startedAt: startTime.toISOString(),
+      updatedAt
+    })
+
+    const timeout = setTimeout(() => {
+      attemptRepository.update(attemptId, {
+        answers,
+        currentQuestionIndex,
+        updatedAt
+      }).catch((error: unknown) => console.warn('Could not sync attempt progress:', error))
+    }, 1000)
+
+    return () => clearTimeout(timeout)
+  }, [quiz, startTime, attemptId, mode, retry, answers, currentQuestionIndex, isCompleted])
+
+  // Timer countdown (only for timed quizzes), measured from the original start
   useEffect(() => {
-    if (!startTime || isCompleted || !quiz) return
+    if (!startTime || isCompleted || !quiz || timeUp) return
     
-    // Only run timer for timed quizzes
-    if (Number(quiz.isTimed) === 0 || timeLeft === 0) return
+    // Only run timer for timed quizzes; practice and retries are never timed
+    if (!quiz.isTimed || !quiz.timeLimit || mode === 'practice' || retry) return
+    const timeLimit = quiz.timeLimit
+
+    // Returns true once the time has run out and the attempt is being submitted
+    const tick = () => {
+      const remaining = remainingSeconds(startTime, timeLimit)
+      setTimeLeft(remaining)
+      if (remaining > 0) return false
+      setTimeUp(true)
+      handleSubmitQuiz()
+      return true
+    }
 
+    if (tick()) return
     const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          handleSubmitQuiz()
-          return 0
-        }
-        return prev - 1
-      })
+      if (tick()) clearInterval(timer)
     }, 1000)
 
     return () => clearInterval(timer)
-  }, [startTime, isCompleted, timeLeft, handleSubmitQuiz, quiz])
+  }, [startTime, isCompleted, timeUp, handleSubmitQuiz, quiz, mode, retry])
 
-  const handleAnswerSelect = (questionId: string, answerIndex: number) => {
+  const handleAnswerChange = (questionId: string, answer: QuestionAnswer) => {
+    const question = questions.find(item => item.id === questionId)
+    if (mode === 'practice' && question && !INSTANT_CHECK_TYPES.includes(question.type)) {
+      setPracticeDrafts(prev => ({ ...prev, [questionId]: answer }))
+      return
+    }
     setAnswers(prev => ({
       ...prev,
-      [questionId]: answerIndex
+      [questionId]: answer
     }))
   }
 
+  const handleCheckAnswer = (questionId: string) => {
+    const draft = practiceDrafts[questionId]
+    if (!hasAnswer(draft)) return
+    setAnswers(prev => ({ ...prev, [questionId]: draft }))
+  }
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
@@ -181,7 +400,143 @@ export function TakeQuiz() {
     )
   }
 
+  if (savedProgress && !startTime) {
+    const savedQuestions = attemptQuestions(quiz.questions, savedProgress)
+    const answeredCount = savedQuestions.filter(question => hasAnswer(savedProgress.answers[question.id])).length
+    const isTimed = isTimedProgress(quiz, savedProgress)
+    const remaining = isTimed ? remainingSeconds(savedProgress.startedAt, quiz.timeLimit!) : 0
+
+    return (
+      <div className="max-w-2xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle>Resume "{quiz.title}"?</CardTitle>
+            <CardDescription>
+              You have an unfinished {savedProgress.parentAttemptId ? 'retry of missed questions' : 'attempt'} started {new Date(savedProgress.startedAt).toLocaleString()}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="text-center">
+                <div className="text-2xl font-bold text-indigo-600">
+                  {answeredCount} / {savedQuestions.length}
+                </div>
+                <div className="text-sm text-gray-600">Questions answered</div>
+              </div>
+              <div className="text-center">
+                <div className={`text-2xl font-bold ${isTimed && remaining < 60 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {isTimed ? formatTime(remaining) : 'No limit'}
+                </div>
+                <div className="text-sm text-gray-600">Time remaining</div>
+              </div>
+            </div>
+
+            {isTimed && remaining === 0 && (
+              <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                The time limit has passed. Submit the answers you already gave to finish this attempt.
+              </p>
+            )}
+            {isTimed && remaining > 0 && (
+              <p className="text-sm text-gray-600 text-center">
+                Starting over clears your answers but keeps the clock of this attempt.
+              </p>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              <Button onClick={resumeAttempt} disabled={starting}>
+                <PlayCircle className="h-4 w-4 mr-2" />
+                {isTimed && remaining === 0 ? 'Submit Attempt' : 'Resume Attempt'}
+              </Button>
+              {/* An expired timed attempt can only be submitted */}
+              {!(isTimed && remaining === 0) && (
+                <Button variant="outline" onClick={startAttempt} disabled={starting}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Start Over
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!startTime && !isCompleted) {
+    const modes: { value: QuizMode; title: string; description: string; icon: typeof GraduationCap }[] = [
+      {
+        value: 'exam',
+        title: 'Exam',
+        description: quiz.isTimed && quiz.timeLimit && !retry
+          ? `Answers are scored at the end. ${quiz.timeLimit}-minute time limit.`
+          : 'Answers are scored at the end.',
+        icon: GraduationCap
+      },
+      {
+        value: 'practice',
+        title: 'Practice',
+        description: 'See whether each answer is right as you go. Untimed and not counted in your averages.',
+        icon: Lightbulb
+      }
+    ]
+
+    return (
+      <div className="max-w-2xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {quiz.title}
+              <Badge className={getDifficultyColor(quiz.difficulty)}>
+                {quiz.difficulty}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              {retry
+                ? `Retry the ${questions.length} question${questions.length === 1 ? '' : 's'} you missed last time.`
+                : `${quiz.description} · ${quiz.questions.length} questions`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {modes.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setMode(option.value)}
+                  className={`p-4 text-left rounded-lg border-2 transition-all ${
+                    mode === option.value
+                      ? 'border-indigo-500 bg-indigo-50'
+                      : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 font-medium text-gray-900">
+                    <option.icon className="h-5 w-5 text-indigo-600" />
+                    {option.title}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">{option.description}</p>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex justify-center gap-4">
+              <Button onClick={startAttempt} disabled={starting}>
+                {retry ? <Repeat className="h-4 w-4 mr-2" /> : <PlayCircle className="h-4 w-4 mr-2" />}
+                {retry ? 'Start Retry' : `Start ${mode === 'practice' ? 'Practice' : 'Quiz'}`}
+              </Button>
+              {isOwner && (
+                <Button variant="outline" onClick={() => navigate(`/quiz/${quiz.id}/edit`)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit Quiz
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
   if (isCompleted && results) {
+    const missedCount = results.totalQuestions - results.correctAnswers
+
     return (
       <div className="max-w-4xl mx-auto space-y-6">
         <Card className="text-center">
@@ -195,9 +550,11 @@ export function TakeQuiz() {
                 <XCircle className="h-16 w-16 text-red-500" />
               )}
             </div>
-            <CardTitle className="text-3xl">Quiz Completed!</CardTitle>
+            <CardTitle className="text-3xl">
+              {retry && missedCount === 0 ? 'Every Missed Question Fixed!' : 'Quiz Completed!'}
+            </CardTitle>
             <CardDescription>
-              Here are your results for "{quiz.title}"
+              Here are your results for {retry ? `your retry of "${quiz.title}"` : `"${quiz.title}"`}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -223,6 +580,12 @@ export function TakeQuiz() {
               >
                 {showExplanations ? 'Hide' : 'Show'} Explanations
               </Button>
+              {missedCount > 0 && (
+                <Button onClick={() => navigate(`/quiz/${quiz.id}?retry=${attemptId}`)}>
+                  <Repeat className="h-4 w-4 mr-2" />
+                  Retry {missedCount} Missed
+                </Button>
+              )}
               <Button onClick={() => navigate('/history')}>
                 View History
               </Button>
@@ -236,73 +599,58 @@ export function TakeQuiz() {
         {showExplanations && (
           <div className="space-y-4">
             <h3 className="text-xl font-semibold text-gray-900">Question Review</h3>
-            {quiz.questions.map((question, index) => {
-              const userAnswer = answers[question.id]
-              const isCorrect = userAnswer === question.correctAnswer
-              
-              return (
-                <Card key={question.id} className={`border-l-4 ${isCorrect ? 'border-l-green-500' : 'border-l-red-500'}`}>
-                  <CardHeader>
-                    <div className="flex items-start justify-between">
-                      <CardTitle className="text-lg">
-                        Question {index + 1}
-                      </CardTitle>
-                      {isCorrect ? (
-                        <CheckCircle className="h-5 w-5 text-green-500" />
-                      ) : (
-                        <XCircle className="h-5 w-5 text-red-500" />
-                      )}
-                    </div>
-                    <CardDescription>{question.question}</CardDescription>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div className="grid gap-2">
-                      {question.options.map((option, optionIndex) => (
-                        <div
-                          key={optionIndex}
-                          className={`p-3 rounded-lg border ${
-                            optionIndex === question.correctAnswer
-                              ? 'bg-green-50 border-green-200 text-green-800'
-                              : optionIndex === userAnswer && !isCorrect
-                              ? 'bg-red-50 border-red-200 text-red-800'
-                              : 'bg-gray-50 border-gray-200'
-                          }`}
-                        >
-                          <div className="flex items-center">
-                            <span className="font-medium mr-2">
-                              {String.fromCharCode(65 + optionIndex)}.
-                            </span>
-                            {option}
-                            {optionIndex === question.correctAnswer && (
-                              <CheckCircle className="h-4 w-4 text-green-500 ml-auto" />
-                            )}
-                            {optionIndex === userAnswer && !isCorrect && (
-                              <XCircle className="h-4 w-4 text-red-500 ml-auto" />
-                            )}
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                      <h4 className="font-medium text-blue-900 mb-2">Explanation:</h4>
-                      <p className="text-blue-800 text-sm">{question.explanation}</p>
-                    </div>
-                  </CardContent>
-                </Card>
-              )
-            })}
+            {questions.map((question, index) => (
+              <QuestionReview
+                key={question.id}
+                question={question}
+                index={index}
+                answer={answers[question.id]}
+                quiz={quiz}
+              />
+            ))}
           </div>
         )}
       </div>
     )
   }
 
-  const currentQuestion = quiz.questions[currentQuestionIndex]
-  const progress = ((currentQuestionIndex + 1) / quiz.questions.length) * 100
-  const isTimedQuiz = Number(quiz.isTimed) > 0
+  const currentQuestion = questions[currentQuestionIndex]
+  const progress = ((currentQuestionIndex + 1) / questions.length) * 100
+  const isTimedQuiz = quiz.isTimed && mode === 'exam' && !retry
+  const isPractice = mode === 'practice'
+  const isLocked = isPractice && hasAnswer(answers[currentQuestion.id])
 
   return (
     <div className="max-w-4xl mx-auto space-y-6">
+      {timeUp && (
+        <Card className="bg-red-50 border-red-200">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
+                <div>
+                  <h3 className="font-medium text-red-900">Time is up</h3>
+                  <p className="text-sm text-red-700">
+                    {submitError
+                      ? `Your answers could not be submitted: ${submitError}`
+                      : 'Submitting your answers...'}
+                  </p>
+                </div>
+              </div>
+              {submitError && (
+                <Button
+                  onClick={handleSubmitQuiz}
+                  variant="outline"
+                  className="border-red-300 text-red-700 hover:bg-red-100"
+                >
+                  Try Again
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quiz Header */}
       <Card>
         <CardHeader>
@@ -319,8 +667,31 @@ export function TakeQuiz() {
                     No Time Limit
                   </Badge>
                 )}
+                {isPractice && (
+                  <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                    <Lightbulb className="h-3 w-3 mr-1" />
+                    Practice
+                  </Badge>
+                )}
+                {retry && (
+                  <Badge variant="outline" className="bg-indigo-50 text-indigo-700 border-indigo-200">
+                    <Repeat className="h-3 w-3 mr-1" />
+                    Retry
+                  </Badge>
+                )}
               </CardTitle>
               <CardDescription>{quiz.description}</CardDescription>
+              {isOwner && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="px-0"
+                  onClick={() => navigate(`/quiz/${quiz.id}/edit`)}
+                >
+                  <Pencil className="h-3 w-3 mr-1" />
+                  Edit Quiz
+                </Button>
+              )}
             </div>
             <div className="text-right">
               {isTimedQuiz ? (
@@ -348,7 +719,7 @@ export function TakeQuiz() {
         <CardContent>
           <div className="space-y-2">
             <div className="flex justify-between text-sm text-gray-600">
-              <span>Question {currentQuestionIndex + 1} of {quiz.questions.length}</span>
+              <span>Question {currentQuestionIndex + 1} of {questions.length}</span>
               <span>{Math.round(progress)}% Complete</span>
             </div>
             <Progress value={progress} className="h-2" />
@@ -367,26 +738,26 @@ export function TakeQuiz() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="grid gap-3">
-            {currentQuestion.options.map((option, index) => (
-              <button
-                key={index}
-                onClick={() => handleAnswerSelect(currentQuestion.id, index)}
-                className={`p-4 text-left rounded-lg border-2 transition-all ${
-                  answers[currentQuestion.id] === index
-                    ? 'border-indigo-500 bg-indigo-50 text-indigo-900'
-                    : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
-                }`}
-              >
-                <div className="flex items-center">
-                  <span className="font-medium mr-3 text-gray-500">
-                    {String.fromCharCode(65 + index)}.
-                  </span>
-                  <span>{option}</span>
-                </div>
-              </button>
-            ))}
-          </div>
+          <QuestionInput
+            question={currentQuestion}
+            answer={isPractice && !isLocked ? practiceDrafts[currentQuestion.id] ?? answers[currentQuestion.id] : answers[currentQuestion.id]}
+            onChange={(answer) => handleAnswerChange(currentQuestion.id, answer)}
+            disabled={isLocked || timeUp}
+          />
+
+          {isPractice && !isLocked && !INSTANT_CHECK_TYPES.includes(currentQuestion.type) && (
+            <Button
+              variant="outline"
+              onClick={() => handleCheckAnswer(currentQuestion.id)}
+              disabled={!hasAnswer(practiceDrafts[currentQuestion.id])}
+            >
+              Check Answer
+            </Button>
+          )}
+
+          {isLocked && (
+            <AnswerFeedback question={currentQuestion} answer={answers[currentQuestion.id]} quiz={quiz} />
+          )}
 
           <div className="flex justify-between pt-6">
             <Button
@@ -398,7 +769,7 @@ export function TakeQuiz() {
               Previous
             </Button>
 
-            {currentQuestionIndex === quiz.questions.length - 1 ? (
+            {currentQuestionIndex === questions.length - 1 ? (
               <Button
                 onClick={handleSubmitQuiz}
                 className="bg-green-600 hover:bg-green-700"
@@ -408,8 +779,8 @@ export function TakeQuiz() {
               </Button>
             ) : (
               <Button
-                onClick={() => setCurrentQuestionIndex(prev => Math.min(quiz.questions.length - 1, prev + 1))}
-                disabled={answers[currentQuestion.id] === undefined}
+                onClick={() => setCurrentQuestionIndex(prev => Math.min(questions.length - 1, prev + 1))}
+                disabled={!hasAnswer(answers[currentQuestion.id])}
               >
                 Next
                 <ArrowRight className="h-4 w-4 ml-2" />
@@ -426,14 +797,14 @@ export function TakeQuiz() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-5 sm:grid-cols-10 gap-2">
-            {quiz.questions.map((_, index) => (
+            {questions.map((question, index) => (
               <button
                 key={index}
                 onClick={() => setCurrentQuestionIndex(index)}
                 className={`aspect-square rounded-lg border-2 text-sm font-medium transition-all ${
                   index === currentQuestionIndex
                     ? 'border-indigo-500 bg-indigo-500 text-white'
-                    : answers[quiz.questions[index].id] !== undefined
+                    : hasAnswer(answers[question.id])
                     ? 'border-green-500 bg-green-50 text-green-700'
                     : 'border-gray-300 hover:border-gray-400'
                 }`}
@@ -5,6 +5,36 @@ export interface User {
   createdAt: string
 }
 
+// Exam attempts are scored at the end; practice attempts reveal each answer immediately
+export type QuizMode = 'exam' | 'practice'
+
+// An uploaded file a quiz was generated from, stored under the quiz's own path
+export interface SourceDocument {
+  name: string
+  path: string
+  url: string
+  size: number
+  type: string
+  uploadedAt: string
+}
+
+/**
+ * Extracted text kept in the document library, so the same material can be
+ * used for several quizzes without uploading and extracting it again.
+ */
+export interface LibraryDocument {
+  id: string
+  userId: string
+  title: string
+  fileName?: string
+  // Characters of extracted text
+  size: number
+  pageCount: number
+  text: string
+  createdAt: string
+  updatedAt: string
+}
+
 export interface Quiz {
   id: string
   title: string
@@ -12,33 +42,193 @@ export interface Quiz {
   topic?: string
   difficulty: 'easy' | 'medium' | 'hard'
   questions: Question[]
-  isTimed?: boolean | string | number
+  isTimed: boolean
   timeLimit?: number | null
+  defaultMode?: QuizMode
+  sourceDocuments?: SourceDocument[]
+  // Address of the web page the quiz was generated from
+  sourceUrl?: string
+  // Library document with the text the quiz was generated from; citation offsets point into it
+  libraryDocumentId?: string
+  // Language code of the text; quizzes saved before this was recorded are English
+  language?: string
+  // Id of the quiz this one was translated from. Translations keep its question ids
+  translationOf?: string
   userId: string
   createdAt: string
   updatedAt: string
 }
 
-export interface Question {
+export type QuestionType =
+  | 'multiple_choice'
+  | 'true_false'
+  | 'multi_select'
+  | 'fill_blank'
+  | 'numeric'
+  | 'short_answer'
+
+/**
+ * Where in the source document a generated question came from. `offset` is
+ * the character position of the excerpt in the extracted text.
+ */
+export interface QuestionSource {
+  excerpt: string
+  section?: string
+  page?: number
+  offset?: number
+}
+
+// Cognitive levels from Bloom's taxonomy, lowest first
+export type CognitiveLevel = 'recall' | 'understand' | 'apply' | 'analyze'
+
+// Relative weight of each level in a generated quiz; all zero leaves the mix to the AI
+export type LevelMix = Record<CognitiveLevel, number>
+
+interface BaseQuestion {
   id: string
   question: string
+  explanation?: string
+  source?: QuestionSource
+  // The learning objective the question assesses, as written by the quiz author
+  objective?: string
+  level?: CognitiveLevel
+}
+
+export interface MultipleChoiceQuestion extends BaseQuestion {
+  type: 'multiple_choice'
   options: string[]
   correctAnswer: number
-  explanation?: string
 }
 
+export interface TrueFalseQuestion extends BaseQuestion {
+  type: 'true_false'
+  correctAnswer: boolean
+}
+
+export interface MultiSelectQuestion extends BaseQuestion {
+  type: 'multi_select'
+  options: string[]
+  correctAnswers: number[]
+}
+
+export interface FillBlankQuestion extends BaseQuestion {
+  type: 'fill_blank'
+  acceptedAnswers: string[]
+}
+
+export interface NumericQuestion extends BaseQuestion {
+  type: 'numeric'
+  correctAnswer: number
+  tolerance: number
+  unit?: string
+}
+
+export interface ShortAnswerQuestion extends BaseQuestion {
+  type: 'short_answer'
+  acceptedAnswers: string[]
+}
+
+export type Question =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | MultiSelectQuestion
+  | FillBlankQuestion
+  | NumericQuestion
+  | ShortAnswerQuestion
+
+// Option index for multiple choice, indices for multi-select, boolean for
+// true/false and free text for the remaining types
+export type QuestionAnswer = number | number[] | boolean | string
+
+// Attempts that were started over before being submitted are `abandoned`
+export type AttemptStatus = 'in_progress' | 'completed' | 'abandoned'
+
 export interface QuizAttempt {
   id: string
   quizId: string
   userId: string
-  answers: number[]
+  answers: Record<string, QuestionAnswer>
   score: number
   totalQuestions: number
   timeSpent: number
+  // Attempts saved before resuming existed have no status and are completed
+  status?: AttemptStatus
+  mode?: QuizMode
+  startedAt?: string
+  currentQuestionIndex?: number
+  // Retries of missed questions link back to the attempt they retry and
+  // only contain the questions listed in `questionIds`
+  parentAttemptId?: string
+  questionIds?: string[]
   completedAt: string
+  createdAt?: string
+  updatedAt?: string
   quiz?: Quiz
 }
 
+// Spaced-repetition schedule (SM-2) for one question the user has answered
+export interface ReviewCard {
+  id: string
+  userId: string
+  quizId: string
+  questionId: string
+  easeFactor: number
+  // Days until the next review
+  interval: number
+  repetitions: number
+  dueAt: string
+  lastReviewedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type QuizTone = 'neutral' | 'friendly' | 'formal' | 'playful'
+
+export type AudienceLevel = 'general' | 'primary' | 'secondary' | 'university' | 'professional'
+
+// Everything the generator asks for besides the topic or document itself
+export interface GenerationSettings {
+  difficulty: 'easy' | 'medium' | 'hard'
+  questionCount: number
+  questionTypes: QuestionType[]
+  isTimed: boolean
+  // Minutes; kept when the timer is off so switching it back on restores it
+  timeLimit: number
+  defaultMode: QuizMode
+  // Language code the quiz is written in
+  language: string
+  tone: QuizTone
+  audience: AudienceLevel
+  // Free-text instructions added to every generation request
+  instructions: string
+  // Learning objectives to assess, one per entry; blank entries are ignored
+  objectives: string[]
+  levelMix: LevelMix
+}
+
+export interface GenerationPreset extends GenerationSettings {
+  id: string
+  userId: string
+  name: string
+  // The preset the generator starts with; at most one per user
+  isDefault: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Wording for the request line of generation prompts, with placeholders
+ * such as {{topic}} filled in when it is used.
+ */
+export interface PromptTemplate {
+  id: string
+  userId: string
+  name: string
+  body: string
+  createdAt: string
+  updatedAt: string
+}
+
 export interface QuizStats {
   totalQuizzes: number
   totalAttempts: number
@@ -1 +1,5 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_BACKEND?: 'blink' | 'local' | 'memory'
+}